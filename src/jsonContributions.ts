@@ -4,7 +4,8 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
-import {Thenable, MarkedString, CompletionItem} from './jsonLanguageService';
+import {Thenable, MarkedString, CompletionItem, ASTNode} from './jsonLanguageService';
+import {JSONSchema} from './jsonSchema';
 
 export interface JSONWorkerContribution {
 	getInfoContribution(uri: string, location: JSONPath): Thenable<MarkedString[]>;
@@ -22,4 +23,21 @@ export interface CompletionsCollector {
 	log(message: string): void;
 	setAsIncomplete(): void;
 	getNumberOfProposals(): number;
-}
\ No newline at end of file
+}
+
+/**
+ * Validates a string against a custom `format`. Returns an error message if the value does not match the format.
+ */
+export type FormatValidator = (value: string) => string | undefined;
+
+/**
+ * Validates a custom schema keyword. Called with every node that is validated against a schema that contains the keyword.
+ */
+export type KeywordValidator = (node: ASTNode, keywordValue: any, problems: ProblemCollector, schema: JSONSchema) => void;
+
+export interface ProblemCollector {
+	/**
+	 * Reports a problem on the validated node or, if given, on one of its descendants.
+	 */
+	add(message: string, node?: ASTNode): void;
+}
@@ -5,8 +5,8 @@
 'use strict';
 
 import {
-	TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, Diagnostic, DiagnosticSeverity,
-	TextEdit, FormattingOptions, MarkedString
+	TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, SymbolKind, Diagnostic, DiagnosticSeverity,
+	TextEdit, FormattingOptions, MarkedString, Location, ReferenceContext, WorkspaceEdit, DocumentLink, TextDocumentContentChangeEvent
 } from 'vscode-languageserver-types';
 
 import { JSONCompletion } from './services/jsonCompletion';
@@ -14,34 +14,232 @@ import { JSONHover } from './services/jsonHover';
 import { JSONValidation } from './services/jsonValidation';
 import { JSONSchema } from './jsonSchema';
 import { JSONDocumentSymbols } from './services/jsonDocumentSymbols';
-import { parse as parseJSON, JSONDocumentConfig, JSONDocument as InternalJSONDocument } from './parser/jsonParser';
+import { getFoldingRanges } from './services/jsonFolding';
+import { getSelectionRanges } from './services/jsonSelectionRanges';
+import { JSONDefinition } from './services/jsonDefinition';
+import { findReferences, doRename } from './services/jsonReferences';
+import { JSONLinks } from './services/jsonLinks';
+import { JSONCodeActions } from './services/jsonCodeActions';
+import { findNodeAtPointer, queryNodes } from './services/jsonQuery';
+import { JSONSemanticTokens } from './services/jsonSemanticTokens';
+import { parse as parseJSON, parseIncremental as parseJSONIncremental, JSONDocumentConfig, JSONDocument as InternalJSONDocument, ErrorCode, AlternativeExplanation } from './parser/jsonParser';
 import { schemaContributions } from './services/configuration';
 import { JSONSchemaService } from './services/jsonSchemaService';
-import { JSONWorkerContribution, JSONPath, Segment, CompletionsCollector } from './jsonContributions';
+import { JSONWorkerContribution, JSONPath, Segment, CompletionsCollector, FormatValidator, KeywordValidator, ProblemCollector } from './jsonContributions';
 import { format as formatJSON } from 'jsonc-parser';
 import { format } from 'util';
 
-export type JSONDocument = {};
-export { JSONSchema, JSONWorkerContribution, JSONPath, Segment, CompletionsCollector };
+export { JSONSchema, JSONWorkerContribution, JSONPath, Segment, CompletionsCollector, ErrorCode, FormatValidator, KeywordValidator, ProblemCollector, AlternativeExplanation };
 export {
 	TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, Diagnostic,
-	TextEdit, FormattingOptions, MarkedString
+	TextEdit, FormattingOptions, MarkedString, Location, ReferenceContext, WorkspaceEdit, DocumentLink
 };
 
 export interface LanguageService {
 	configure(settings: LanguageSettings): void;
-	doValidation(document: TextDocument, jsonDocument: JSONDocument, documentSettings?: DocumentLanguageSettings): Thenable<Diagnostic[]>;
+	/**
+	 * Validates the document. Resolves to no diagnostics if the token is cancelled.
+	 */
+	doValidation(document: TextDocument, jsonDocument: JSONDocument, documentSettings?: DocumentLanguageSettings, token?: CancellationToken): Thenable<Diagnostic[]>;
 	parseJSONDocument(document: TextDocument): JSONDocument;
+	/**
+	 * Parses a document after the given changes, reusing the unchanged parts of the previous JSON document. The result is the same as
+	 * the one of `parseJSONDocument`. The previous JSON document must not be used anymore.
+	 */
+	updateJSONDocument(document: TextDocument, previous: JSONDocument, changes: TextDocumentContentChangeEvent[]): JSONDocument;
 	resetSchema(uri: string): boolean;
 	doResolve(item: CompletionItem): Thenable<CompletionItem>;
-	doComplete(document: TextDocument, position: Position, doc: JSONDocument): Thenable<CompletionList | null>;
+	/**
+	 * Computes the completion proposals at the position. Resolves to null if the token is cancelled.
+	 */
+	doComplete(document: TextDocument, position: Position, doc: JSONDocument, token?: CancellationToken): Thenable<CompletionList | null>;
+	/**
+	 * Computes the outline of the document as a flat list of symbols. The outline does not use the schema: `labelProperty` is
+	 * ignored, and the items of the VS Code key bindings files are still named by their `key` property.
+	 */
 	findDocumentSymbols(document: TextDocument, doc: JSONDocument): SymbolInformation[];
+	/**
+	 * Computes the outline of the document as a symbol tree. Array items are named by their index or by the value of the property
+	 * that `labelProperty` in their schema names. For object entries, that value is shown as `detail`.
+	 */
+	findDocumentSymbols2(document: TextDocument, doc: JSONDocument, context?: DocumentSymbolsContext): Thenable<DocumentSymbol[]>;
 	/** deprecated, use findDocumentColors instead */
 	findColorSymbols(document: TextDocument, doc: JSONDocument): Thenable<Range[]>;
-	findDocumentColors(document: TextDocument, doc: JSONDocument): Thenable<ColorInformation[]>;
+	/**
+	 * Finds the color values in the document. Resolves to no colors if the token is cancelled.
+	 */
+	findDocumentColors(document: TextDocument, doc: JSONDocument, token?: CancellationToken): Thenable<ColorInformation[]>;
 	getColorPresentations(document: TextDocument, doc: JSONDocument, color: Color, range: Range): ColorPresentation[];
-	doHover(document: TextDocument, position: Position, doc: JSONDocument): Thenable<Hover | null>;
+	/**
+	 * Computes the hover at the position. Resolves to null if the token is cancelled.
+	 */
+	doHover(document: TextDocument, position: Position, doc: JSONDocument, token?: CancellationToken): Thenable<Hover | null>;
 	format(document: TextDocument, range: Range, options: FormattingOptions): TextEdit[];
+	getFoldingRanges(document: TextDocument, context?: FoldingRangesContext): FoldingRange[];
+	getSelectionRanges(document: TextDocument, positions: Position[], doc: JSONDocument): SelectionRange[];
+	findDefinition(document: TextDocument, position: Position, doc: JSONDocument): Thenable<Location[]>;
+	findReferences(document: TextDocument, position: Position, doc: JSONDocument, context?: ReferenceContext): Location[];
+	/**
+	 * Renames the `definitions` or `$defs` entry at the position and updates the local `$ref`s to it. Returns null if there is no entry
+	 * at the position or if another entry of the same map already has the new name.
+	 */
+	doRename(document: TextDocument, position: Position, newName: string, doc: JSONDocument): WorkspaceEdit | null;
+	findLinks(document: TextDocument, doc: JSONDocument): Thenable<DocumentLink[]>;
+	/**
+	 * Computes the quick fixes for the diagnostics in the range. The fixes are built from the `code` and `data` of the diagnostics
+	 * returned by `doValidation` and the node at their range.
+	 */
+	getCodeActions(document: TextDocument, range: Range, diagnostics: Diagnostic[], doc: JSONDocument): Thenable<CodeAction[]>;
+	/**
+	 * Returns the value node at the JSON pointer, e.g. `/a/b/0`. Pointers starting with `#` are taken as URI fragments.
+	 * Returns null if the pointer is invalid or no node is at the pointer.
+	 */
+	findNodeAtPointer(doc: JSONDocument, pointer: string): ASTNode | null;
+	/**
+	 * Returns the value nodes selected by the JSONPath query, e.g. `$.services[*].image`, in the order of the query. Supported are
+	 * member names in dot and bracket notation, array indices, wildcards, unions, array slices and the descendant operator `..`.
+	 * Returns null if the query is invalid.
+	 */
+	queryNodes(doc: JSONDocument, query: string): ASTNode[] | null;
+	/**
+	 * Returns the token types and modifiers that the semantic tokens refer to.
+	 */
+	getSemanticTokensLegend(): SemanticTokensLegend;
+	/**
+	 * Computes the semantic tokens of the document or of the given range: property keys, values, comments and the `$ref` and `$schema`
+	 * keywords. Keys are marked as deprecated, as declared by the schema or as falling under `additionalProperties`.
+	 * Resolves to no tokens if the token is cancelled.
+	 */
+	getSemanticTokens(document: TextDocument, doc: JSONDocument, range?: Range, token?: CancellationToken): Thenable<SemanticTokens>;
+}
+
+export type ASTNodeType = 'object' | 'property' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * A node of the syntax tree of a JSON document. The nodes are read-only: they must not be modified.
+ */
+export type ASTNode = ObjectASTNode | PropertyASTNode | ArrayASTNode | StringASTNode | NumberASTNode | BooleanASTNode | NullASTNode;
+
+export interface BaseASTNode {
+	readonly type: ASTNodeType;
+	/**
+	 * The offset of the first character of the node.
+	 */
+	readonly start: number;
+	/**
+	 * The offset after the last character of the node.
+	 */
+	readonly end: number;
+	/**
+	 * The parent node, `null` for the root node.
+	 */
+	readonly parent: ASTNode | null;
+	/**
+	 * The child nodes in document order: the properties of an object, the items of an array or the key and value of a property.
+	 */
+	readonly children: ASTNode[];
+	/**
+	 * The location of the node in the document, as the property names and array indices from the root node.
+	 */
+	getPath(): JSONPath;
+	/**
+	 * The JSON value of the node.
+	 */
+	getValue(): any;
+	contains(offset: number, includeRightBound?: boolean): boolean;
+	/**
+	 * Returns the innermost node of this subtree that contains the offset.
+	 */
+	getNodeFromOffset(offset: number): ASTNode | null;
+	/**
+	 * Visits the nodes of this subtree in document order. Returns false if the visitor stopped the traversal by returning false.
+	 */
+	visit(visitor: (node: ASTNode) => boolean): boolean;
+}
+
+export interface ObjectASTNode extends BaseASTNode {
+	readonly type: 'object';
+	readonly properties: PropertyASTNode[];
+}
+
+export interface PropertyASTNode extends BaseASTNode {
+	readonly type: 'property';
+	readonly keyNode: StringASTNode;
+	/**
+	 * The value of the property, `null` if the value is missing.
+	 */
+	readonly valueNode: ASTNode | null;
+	/**
+	 * The offset of the colon, -1 if the colon is missing.
+	 */
+	readonly colonOffset: number;
+}
+
+export interface ArrayASTNode extends BaseASTNode {
+	readonly type: 'array';
+	readonly items: ASTNode[];
+}
+
+export interface StringASTNode extends BaseASTNode {
+	readonly type: 'string';
+	readonly value: string;
+	/**
+	 * Whether the string is the key of a property.
+	 */
+	readonly isKey: boolean;
+}
+
+export interface NumberASTNode extends BaseASTNode {
+	readonly type: 'number';
+	readonly value: number;
+	readonly isInteger: boolean;
+}
+
+export interface BooleanASTNode extends BaseASTNode {
+	readonly type: 'boolean';
+	readonly value: boolean;
+}
+
+export interface NullASTNode extends BaseASTNode {
+	readonly type: 'null';
+}
+
+export interface OffsetRange {
+	start: number;
+	end: number;
+}
+
+export interface SyntaxProblem {
+	location: OffsetRange;
+	severity: SeverityLevel;
+	code?: ErrorCode;
+	message: string;
+}
+
+/**
+ * A parsed JSON document, as returned by `parseJSONDocument`.
+ */
+export interface JSONDocument {
+	/**
+	 * The root node, `null` if the document is empty.
+	 */
+	readonly root: ASTNode | null;
+	/**
+	 * The syntax errors and the duplicate keys of the document.
+	 */
+	readonly syntaxErrors: SyntaxProblem[];
+	/**
+	 * The ranges of the comments of the document.
+	 */
+	readonly comments: OffsetRange[];
+	/**
+	 * Returns the innermost node that contains the offset.
+	 */
+	getNodeFromOffset(offset: number): ASTNode | null;
+	/**
+	 * Visits all nodes of the document in document order until the visitor returns false.
+	 */
+	visit(visitor: (node: ASTNode) => boolean): void;
 }
 
 export interface Color {
@@ -73,6 +271,221 @@ export interface ColorPresentation {
 	additionalTextEdits?: TextEdit[];
 }
 
+/**
+ * Enum of known range kinds
+ */
+export enum FoldingRangeKind {
+	/**
+	 * Folding range for a comment
+	 */
+	Comment = 'comment',
+	/**
+	 * Folding range for a imports or includes
+	 */
+	Imports = 'imports',
+	/**
+	 * Folding range for a region (e.g. `#region`)
+	 */
+	Region = 'region'
+}
+
+/**
+ * Represents a folding range.
+ */
+export interface FoldingRange {
+
+	/**
+	 * The zero-based line number from where the folded range starts.
+	 */
+	startLine: number;
+
+	/**
+	 * The zero-based character offset from where the folded range starts. If not defined, defaults to the length of the start line.
+	 */
+	startCharacter?: number;
+
+	/**
+	 * The zero-based line number where the folded range ends.
+	 */
+	endLine: number;
+
+	/**
+	 * The zero-based character offset before the folded range ends. If not defined, defaults to the length of the end line.
+	 */
+	endCharacter?: number;
+
+	/**
+	 * Describes the kind of the folding range such as `comment' or 'region'. The kind
+	 * is used to categorize folding ranges. 'object' and 'array' are used for the ranges of JSON objects and arrays.
+	 */
+	kind?: string;
+}
+
+export interface FoldingRangesContext {
+	/**
+	 * The maximal number of ranges returned. If more ranges are found, the innermost ranges are dropped first.
+	 */
+	rangeLimit?: number;
+}
+
+/**
+ * Represents programming constructs like variables, classes, interfaces etc. that appear in a document. Document symbols can be
+ * hierarchical and they have two ranges: one that encloses its definition and one that points to its most interesting range,
+ * e.g. the range of an identifier.
+ */
+export interface DocumentSymbol {
+
+	/**
+	 * The name of this symbol.
+	 */
+	name: string;
+
+	/**
+	 * More detail for this symbol, e.g. a preview of the value.
+	 */
+	detail?: string;
+
+	/**
+	 * The kind of this symbol.
+	 */
+	kind: SymbolKind;
+
+	/**
+	 * The range enclosing this symbol not including leading/trailing whitespace but everything else.
+	 */
+	range: Range;
+
+	/**
+	 * The range that should be selected and revealed when this symbol is being picked, e.g. the key of a property.
+	 * Must be contained by the `range`.
+	 */
+	selectionRange: Range;
+
+	/**
+	 * Children of this symbol, e.g. the properties of an object.
+	 */
+	children?: DocumentSymbol[];
+}
+
+export interface DocumentSymbolsContext {
+	/**
+	 * The maximal number of symbols returned. If more symbols are found, the innermost symbols are dropped first.
+	 */
+	resultLimit?: number;
+
+	/**
+	 * Called when the result was truncated because of the `resultLimit`.
+	 */
+	onResultLimitExceeded?: (uri: string) => void;
+}
+
+/**
+ * A selection range represents a part of a selection hierarchy. A selection range
+ * may have a parent selection range that contains it.
+ */
+export interface SelectionRange {
+
+	/**
+	 * The [range](#Range) of this selection range.
+	 */
+	range: Range;
+
+	/**
+	 * The parent selection range containing this range. Therefore `parent.range` must contain `this.range`.
+	 */
+	parent?: SelectionRange;
+}
+
+export interface SemanticTokensLegend {
+	/**
+	 * The token types. The type of a token is an index into this list.
+	 */
+	tokenTypes: string[];
+
+	/**
+	 * The token modifiers. The modifiers of a token are a bit set of the indices into this list.
+	 */
+	tokenModifiers: string[];
+}
+
+export interface SemanticTokens {
+	/**
+	 * The tokens in the relative encoding of the LSP: five integers per token, the line and the start character relative to the
+	 * previous token, the length, the token type and the token modifiers.
+	 */
+	data: number[];
+}
+
+/**
+ * The kind of a code action.
+ */
+export enum CodeActionKind {
+	/**
+	 * Base kind for quickfix actions: 'quickfix'
+	 */
+	QuickFix = 'quickfix'
+}
+
+/**
+ * A code action represents a change that can be performed in code, e.g. to fix a problem.
+ */
+export interface CodeAction {
+
+	/**
+	 * A short, human-readable, title for this code action.
+	 */
+	title: string;
+
+	/**
+	 * The kind of the code action. Used to filter code actions.
+	 */
+	kind?: string;
+
+	/**
+	 * The diagnostics that this code action resolves.
+	 */
+	diagnostics?: Diagnostic[];
+
+	/**
+	 * The workspace edit this code action performs.
+	 */
+	edit?: WorkspaceEdit;
+}
+
+/**
+ * Structured information attached to the diagnostics returned by `LanguageService.doValidation` (in `Diagnostic.data`).
+ * The `ErrorCode` of the problem is reported in `Diagnostic.code`.
+ */
+export interface DiagnosticData {
+	/**
+	 * The schema keyword that is violated, e.g. `required` or `maxLength`. Not set for syntax errors.
+	 */
+	keyword?: string;
+	/**
+	 * A JSON pointer to the violated keyword in the schema, e.g. `/properties/name/maxLength`. Keywords of a `$ref` target are addressed
+	 * at the `$ref`. Subschemas from another schema document are addressed in that document.
+	 */
+	schemaPointer?: string;
+	/**
+	 * Additional information depending on the problem, e.g. `property` for a missing property or `values` for an enum mismatch.
+	 */
+	[key: string]: any;
+}
+
+/**
+ * Represents a related message and source code location for a diagnostic, e.g. the schema keyword that a value violates.
+ */
+export interface DiagnosticRelatedInformation {
+	/**
+	 * The location of this related diagnostic information.
+	 */
+	location: Location;
+	/**
+	 * The message of this related diagnostic information.
+	 */
+	message: string;
+}
+
 export interface LanguageSettings {
 	/**
 	 * If set, the validator will return syntax and semantic errors.
@@ -84,6 +497,18 @@ export interface LanguageSettings {
 	 */
 	allowComments?: boolean;
 
+	/**
+	 * Defines whether the `format` keyword is validated as an assertion. If set to false, `format` is only an annotation, as allowed by JSON schema 2019-09.
+	 * Defaults to true.
+	 */
+	formatAssertion?: boolean;
+
+	/**
+	 * If set, values that match none of the alternatives of `anyOf` or `oneOf` get a problem that lists, alternative by alternative,
+	 * why the value does not match, and `oneOf` conflicts name the matching alternatives. The explanations are in `Diagnostic.data.alternatives`.
+	 */
+	explainAlternatives?: boolean;
+
 	/**
 	 * A list of known schemas and/or associations of schemas to file names.
 	 */
@@ -102,6 +527,13 @@ export interface DocumentLanguageSettings {
 	 * The severity of reported trailing commas. If not set, trailing commas will be reported as errors.
 	 */
 	trailingCommas?: SeverityLevel;
+
+	/**
+	 * Overrides the severity of reported problems. The keys are either problem codes, written as the name of the `ErrorCode`
+	 * with a lowercase first letter (e.g. `duplicateKey`), or the violated schema keyword (e.g. `additionalProperties`).
+	 * Problem codes take precedence over keywords.
+	 */
+	severities?: { [codeOrKeyword: string]: SeverityLevel };
 }
 
 export interface SchemaConfiguration {
@@ -131,6 +563,16 @@ export interface SchemaRequestService {
 	(uri: string): Thenable<string>;
 }
 
+/**
+ * A token that signals that the result of a request is no longer needed. Compatible with the cancellation tokens of the language server protocol libraries.
+ */
+export interface CancellationToken {
+	/**
+	 * Is true when the token has been cancelled.
+	 */
+	isCancellationRequested: boolean;
+}
+
 export interface PromiseConstructor {
     /**
      * Creates a new Promise.
@@ -188,6 +630,15 @@ export interface LanguageServiceParams {
 	 * An optional set of completion and hover participants.
 	 */
 	contributions?: JSONWorkerContribution[];
+	/**
+	 * Validators for custom `format` values, such as `semver`, by format name. They take precedence over the built-in format validators.
+	 */
+	formatValidators?: { [format: string]: FormatValidator };
+	/**
+	 * Validators for custom schema keywords, such as `x-unique-by`, by keyword. The problems they report are validation problems like
+	 * the ones of the standard keywords.
+	 */
+	keywordValidators?: { [keyword: string]: KeywordValidator };
 	/**
 	 * A promise constructor. If not set, the ES5 Promise will be used.
 	 */
@@ -202,8 +653,12 @@ export function getLanguageService(params: LanguageServiceParams): LanguageServi
 
 	let jsonCompletion = new JSONCompletion(jsonSchemaService, params.contributions, promise);
 	let jsonHover = new JSONHover(jsonSchemaService, params.contributions, promise);
-	let jsonDocumentSymbols = new JSONDocumentSymbols(jsonSchemaService);
-	let jsonValidation = new JSONValidation(jsonSchemaService, promise);
+	let jsonDocumentSymbols = new JSONDocumentSymbols(jsonSchemaService, promise);
+	let jsonValidation = new JSONValidation(jsonSchemaService, promise, params);
+	let jsonDefinition = new JSONDefinition(jsonSchemaService, params.workspaceContext, promise);
+	let jsonLinks = new JSONLinks(jsonSchemaService, params.workspaceContext, promise);
+	let jsonCodeActions = new JSONCodeActions(jsonSchemaService, promise);
+	let jsonSemanticTokens = new JSONSemanticTokens(jsonSchemaService, promise);
 
 	return {
 		configure: (settings: LanguageSettings) => {
@@ -218,9 +673,11 @@ export function getLanguageService(params: LanguageServiceParams): LanguageServi
 		resetSchema: (uri: string) => jsonSchemaService.onResourceChange(uri),
 		doValidation: jsonValidation.doValidation.bind(jsonValidation),
 		parseJSONDocument: (document: TextDocument) => parseJSON(document, { collectComments: true }),
+		updateJSONDocument: (document: TextDocument, previous: JSONDocument, changes: TextDocumentContentChangeEvent[]) => parseJSONIncremental(document, <InternalJSONDocument>previous, changes, { collectComments: true }),
 		doResolve: jsonCompletion.doResolve.bind(jsonCompletion),
 		doComplete: jsonCompletion.doComplete.bind(jsonCompletion),
 		findDocumentSymbols: jsonDocumentSymbols.findDocumentSymbols.bind(jsonDocumentSymbols),
+		findDocumentSymbols2: jsonDocumentSymbols.findDocumentSymbols2.bind(jsonDocumentSymbols),
 		findColorSymbols: (d, s) => jsonDocumentSymbols.findDocumentColors(d, <InternalJSONDocument>s).then(s => s.map(s => s.range)),
 		findDocumentColors: jsonDocumentSymbols.findDocumentColors.bind(jsonDocumentSymbols),
 		getColorPresentations: jsonDocumentSymbols.getColorPresentations.bind(jsonDocumentSymbols),
@@ -236,6 +693,17 @@ export function getLanguageService(params: LanguageServiceParams): LanguageServi
 			return formatJSON(d.getText(), range, options).map(e => {
 				return TextEdit.replace(Range.create(d.positionAt(e.offset), d.positionAt(e.offset + e.length)), e.content);
 			});
-		}
+		},
+		getFoldingRanges,
+		getSelectionRanges: (d, p, s) => getSelectionRanges(d, p, <InternalJSONDocument>s),
+		findDefinition: jsonDefinition.findDefinition.bind(jsonDefinition),
+		findReferences: (d, p, s, c) => findReferences(d, p, <InternalJSONDocument>s, c),
+		doRename: (d, p, n, s) => doRename(d, p, n, <InternalJSONDocument>s),
+		findLinks: jsonLinks.findLinks.bind(jsonLinks),
+		getCodeActions: jsonCodeActions.getCodeActions.bind(jsonCodeActions),
+		findNodeAtPointer: (d, p) => findNodeAtPointer(<InternalJSONDocument>d, p),
+		queryNodes: (d, q) => queryNodes(<InternalJSONDocument>d, q),
+		getSemanticTokensLegend: jsonSemanticTokens.getLegend.bind(jsonSemanticTokens),
+		getSemanticTokens: jsonSemanticTokens.getSemanticTokens.bind(jsonSemanticTokens)
 	};
 }
@@ -48,6 +48,27 @@ export interface JSONSchema {
 	contains?: JSONSchemaRef;
 	propertyNames?: JSONSchemaRef;
 
+	// schema draft 07
+	if?: JSONSchemaRef;
+	then?: JSONSchemaRef;
+	else?: JSONSchemaRef;
+
+	// schema 2019-09 and 2020-12
+	$defs?: { [name: string]: JSONSchema };
+	$anchor?: string;
+	$dynamicRef?: string;
+	$dynamicAnchor?: string;
+	dependentRequired?: { [prop: string]: string[] };
+	dependentSchemas?: JSONSchemaMap;
+	prefixItems?: JSONSchemaRef[];
+	minContains?: number;
+	maxContains?: number;
+	unevaluatedProperties?: boolean | JSONSchemaRef;
+	unevaluatedItems?: boolean | JSONSchemaRef;
+
+	// OpenAPI
+	discriminator?: { propertyName: string; }; // the property whose value selects the alternative of `oneOf` or `anyOf`
+
 	// VSCode extensions
 
 	defaultSnippets?: { label?: string; description?: string; body?: any; bodyText?: string; }[]; // VSCode extension: body: a object that will be converted to a JSON string. bodyText: text with \t and \n
@@ -59,6 +80,7 @@ export interface JSONSchema {
 	markdownDescription?: string; // VSCode extension
 	doNotSuggest?: boolean; // VSCode extension
 	allowComments?: boolean; // VSCode extension
+	labelProperty?: string; // VSCode extension: the property whose value names the object in the outline
 }
 
 export interface JSONSchemaMap {
@@ -6,11 +6,16 @@
 
 import * as Json from 'jsonc-parser';
 import { JSONSchema, JSONSchemaRef } from '../jsonSchema';
+import { FormatValidator, KeywordValidator, ProblemCollector } from '../jsonContributions';
+import {
+	CancellationToken, ASTNodeType, ObjectASTNode as IObjectASTNode, PropertyASTNode as IPropertyASTNode, ArrayASTNode as IArrayASTNode, StringASTNode as IStringASTNode,
+	NumberASTNode as INumberASTNode, BooleanASTNode as IBooleanASTNode, NullASTNode as INullASTNode
+} from '../jsonLanguageService';
 import * as objects from '../utils/objects';
 
 import * as nls from 'vscode-nls';
 import Uri from 'vscode-uri';
-import { TextDocument } from 'vscode-languageserver-types';
+import { TextDocument, TextDocumentContentChangeEvent, Position } from 'vscode-languageserver-types';
 
 const localize = nls.loadMessageBundle();
 
@@ -22,6 +27,34 @@ export interface IRange {
 export enum ErrorCode {
 	Undefined = 0,
 	EnumValueMismatch = 1,
+	MissingRequiredProperty = 2,
+	PropertyNotAllowed = 3,
+	TypeMismatch = 4,
+	NotSchemaMatch = 5,
+	OneOfMultipleMatches = 6,
+	Deprecated = 7,
+	AdditionalItemsNotAllowed = 8,
+	ContainsMismatch = 9,
+	TooFewItems = 10,
+	TooManyItems = 11,
+	DuplicateItems = 12,
+	NotMultipleOf = 13,
+	BelowExclusiveMinimum = 14,
+	AboveExclusiveMaximum = 15,
+	BelowMinimum = 16,
+	AboveMaximum = 17,
+	StringTooShort = 18,
+	StringTooLong = 19,
+	PatternMismatch = 20,
+	FormatMismatch = 21,
+	TooFewProperties = 22,
+	TooManyProperties = 23,
+	MissingDependentProperty = 24,
+	TooFewContainedItems = 25,
+	TooManyContainedItems = 26,
+	UnevaluatedItemNotAllowed = 27,
+	CustomKeywordMismatch = 28,
+	NoAlternativeMatches = 29,
 	UnexpectedEndOfComment = 0x101,
 	UnexpectedEndOfString = 0x102,
 	UnexpectedEndOfNumber = 0x103,
@@ -34,11 +67,275 @@ export enum ErrorCode {
 	ValueExpected = 0x204,
 	CommaOrCloseBacketExpected = 0x205,
 	CommaOrCloseBraceExpected = 0x206,
-	TrailingComma = 0x207
+	TrailingComma = 0x207,
+	DuplicateKey = 0x208,
+	PropertyKeysMustBeDoublequoted = 0x209,
+	CommentNotPermitted = 0x20A,
+	SchemaResolveError = 0x301,
+	UnresolvedReference = 0x302,
+	InvalidRegularExpression = 0x303,
+	RequiredPropertyNotDefined = 0x304,
+	MinimumGreaterThanMaximum = 0x305,
+	UnknownKeyword = 0x306,
+	UnusedDefinition = 0x307
 }
 
 const colorHexPattern = /^#([0-9A-Fa-f]{3,4}|([0-9A-Fa-f]{2}){3,4})$/;
 const emailPattern = /^(([^<>()\[\]\\.,;:\s@"]+(\.[^<>()\[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
+const dateTimePattern = /^([^Tt]*)[Tt](.*)$/;
+const datePattern = /^(\d{4})-(\d{2})-(\d{2})$/;
+const timePattern = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?([Zz]|[+-](\d{2}):(\d{2}))$/;
+const durationPattern = /^P(?!$)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?$|^P\d+W$/;
+const ipv4Pattern = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const ipv6GroupPattern = /^[0-9a-fA-F]{1,4}$/;
+const hostnameLabelPattern = /^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?$/;
+const idnHostnameLabelPattern = /^[a-zA-Z0-9\u00A1-\uFFFF]([a-zA-Z0-9\u00A1-\uFFFF-]*[a-zA-Z0-9\u00A1-\uFFFF])?$/;
+const idnEmailLocalPartPattern = /^([a-zA-Z0-9!#$%&'*+\/=?^_`{|}~\u00A1-\uFFFF-]+(\.[a-zA-Z0-9!#$%&'*+\/=?^_`{|}~\u00A1-\uFFFF-]+)*|"([^"\\\r\n]|\\.)*")$/;
+const uuidPattern = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const jsonPointerPattern = /^(\/([^~\/]|~[01])*)*$/;
+const relativeJSONPointerPattern = /^(0|[1-9]\d*)(#|(\/([^~\/]|~[01])*)*)$/;
+const uriTemplatePattern = /^([^\x00-\x20"%'<>\\^`{|}\x7F]|%[0-9a-fA-F]{2}|\{[+#.\/;?&=,!@|]?([a-zA-Z0-9_]|%[0-9a-fA-F]{2})(\.?([a-zA-Z0-9_]|%[0-9a-fA-F]{2}))*(:[1-9]\d{0,3}|\*)?(,([a-zA-Z0-9_]|%[0-9a-fA-F]{2})(\.?([a-zA-Z0-9_]|%[0-9a-fA-F]{2}))*(:[1-9]\d{0,3}|\*)?)*\})*$/;
+const iriCharactersPattern = /^[^\x00-\x20<>"{}|\\^`\x7F]*$/;
+const invalidPercentEncodingPattern = /%(?![0-9a-fA-F]{2})/;
+const schemePattern = /^[a-zA-Z][a-zA-Z0-9+\-.]*:/;
+
+/**
+ * Validators for the values of the `format` keyword. A validator returns an error message if the value does not match the format.
+ */
+const formatValidators: { [format: string]: (value: string) => string } = {
+	'uri': value => validateURI(value, true),
+	'uri-reference': value => validateURI(value, false),
+	'iri': value => validateIRI(value, true),
+	'iri-reference': value => validateIRI(value, false),
+	'uri-template': value => uriTemplatePattern.test(value) ? null : localize('uriTemplateFormatWarning', 'String is not a RFC 6570 URI template, e.g. "https://example.com/users/{id}".'),
+	'email': value => emailPattern.test(value) ? null : localize('emailFormatWarning', 'String is not an e-mail address.'),
+	'idn-email': validateIdnEmail,
+	'color-hex': value => colorHexPattern.test(value) ? null : localize('colorHexFormatWarning', 'Invalid color format. Use #RGB, #RGBA, #RRGGBB or #RRGGBBAA.'),
+	'date-time': validateDateTime,
+	'date': value => datePattern.test(value) ? validateDate(value) : localize('dateFormatWarning', 'String is not a RFC 3339 date. Use YYYY-MM-DD, e.g. "2018-11-13".'),
+	'time': value => timePattern.test(value) ? validateTime(value) : localize('timeFormatWarning', 'String is not a RFC 3339 time. Use hh:mm:ss followed by a time zone offset, e.g. "20:20:39Z" or "20:20:39+01:00".'),
+	'duration': value => durationPattern.test(value) ? null : localize('durationFormatWarning', 'String is not an ISO 8601 duration, e.g. "P3DT12H" or "PT30M".'),
+	'ipv4': value => ipv4Pattern.test(value) ? null : localize('ipv4FormatWarning', 'String is not an IPv4 address in dotted-quad notation, e.g. "192.168.0.1".'),
+	'ipv6': value => isIPv6(value) ? null : localize('ipv6FormatWarning', 'String is not an IPv6 address, e.g. "2001:db8::1".'),
+	'hostname': value => validateHostname(value, false),
+	'idn-hostname': value => validateHostname(value, true),
+	'uuid': value => uuidPattern.test(value) ? null : localize('uuidFormatWarning', 'String is not a UUID, e.g. "123e4567-e89b-12d3-a456-426614174000".'),
+	'regex': validateRegex,
+	'json-pointer': value => jsonPointerPattern.test(value) ? null : localize('jsonPointerFormatWarning', 'String is not a JSON pointer. Use an empty string or segments starting with "/", with "~" escaped as "~0" and "/" as "~1".'),
+	'relative-json-pointer': value => relativeJSONPointerPattern.test(value) ? null : localize('relativeJSONPointerFormatWarning', 'String is not a relative JSON pointer. Use a non-negative integer followed by "#" or by a JSON pointer, e.g. "1/name".')
+};
+
+function validateURI(value: string, requireScheme: boolean): string {
+	let errorMessage;
+	if (!value) {
+		errorMessage = localize('uriEmpty', 'URI expected.');
+	} else {
+		try {
+			let uri = Uri.parse(value);
+			if (!uri.scheme && requireScheme) {
+				errorMessage = localize('uriSchemeMissing', 'URI with a scheme is expected.');
+			}
+		} catch (e) {
+			errorMessage = e.message;
+		}
+	}
+	return errorMessage && localize('uriFormatWarning', 'String is not a URI: {0}', errorMessage);
+}
+
+function validateIRI(value: string, requireScheme: boolean): string {
+	let errorMessage;
+	if (!value) {
+		errorMessage = localize('iriEmpty', 'IRI expected.');
+	} else if (!iriCharactersPattern.test(value)) {
+		errorMessage = localize('iriInvalidCharacters', 'Spaces and the characters <>"{}|\\^` must be percent-encoded.');
+	} else if (invalidPercentEncodingPattern.test(value)) {
+		errorMessage = localize('iriInvalidPercentEncoding', '"%" must be followed by two hexadecimal digits.');
+	} else if (!schemePattern.test(value) && requireScheme) {
+		errorMessage = localize('iriSchemeMissing', 'IRI with a scheme is expected.');
+	}
+	return errorMessage && localize('iriFormatWarning', 'String is not an IRI: {0}', errorMessage);
+}
+
+function validateDateTime(value: string): string {
+	let match = value.match(dateTimePattern);
+	if (!match || !datePattern.test(match[1]) || !timePattern.test(match[2])) {
+		return localize('dateTimeFormatWarning', 'String is not a RFC 3339 date-time, e.g. "2018-11-13T20:20:39+00:00".');
+	}
+	return validateDate(match[1]) || validateTime(match[2]);
+}
+
+function validateDate(value: string): string {
+	let match = value.match(datePattern);
+	let year = Number(match[1]), month = Number(match[2]), day = Number(match[3]);
+	if (month < 1 || month > 12) {
+		return localize('monthRangeWarning', 'Month {0} is out of range. Use a month from 01 to 12.', match[2]);
+	}
+	let daysInMonth = month === 2 ? (year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0) ? 29 : 28) : (month === 4 || month === 6 || month === 9 || month === 11 ? 30 : 31);
+	if (day < 1 || day > daysInMonth) {
+		return localize('dayRangeWarning', 'Day {0} is out of range. Use a day from 01 to {1}.', match[3], daysInMonth);
+	}
+	return null;
+}
+
+function validateTime(value: string): string {
+	let match = value.match(timePattern);
+	if (Number(match[1]) > 23 || Number(match[2]) > 59 || Number(match[3]) > 60) {
+		return localize('timeRangeWarning', 'Time {0}:{1}:{2} is out of range.', match[1], match[2], match[3]);
+	}
+	if (match[6] && (Number(match[6]) > 23 || Number(match[7]) > 59)) {
+		return localize('timeOffsetRangeWarning', 'Time zone offset {0} is out of range.', match[5]);
+	}
+	return null;
+}
+
+function isIPv6(value: string): boolean {
+	// at most one '::' that stands for one or more groups of zeros
+	let parts = value.split('::');
+	if (parts.length > 2) {
+		return false;
+	}
+	let groupCount = 0;
+	for (let i = 0; i < parts.length; i++) {
+		if (!parts[i]) {
+			continue;
+		}
+		let groups = parts[i].split(':');
+		for (let j = 0; j < groups.length; j++) {
+			if (i === parts.length - 1 && j === groups.length - 1 && ipv4Pattern.test(groups[j])) {
+				// the last 32 bits can be written as an IPv4 address
+				groupCount += 2;
+			} else if (ipv6GroupPattern.test(groups[j])) {
+				groupCount++;
+			} else {
+				return false;
+			}
+		}
+	}
+	return parts.length === 2 ? groupCount < 8 : groupCount === 8;
+}
+
+function validateHostname(value: string, idn: boolean): string {
+	if (!value) {
+		return localize('hostnameEmpty', 'Host name expected.');
+	}
+	if (!idn && value.length > 253) {
+		return localize('hostnameTooLong', 'Host name is longer than 253 characters.');
+	}
+	// IDNA also accepts the ideographic and fullwidth full stops as label separators
+	let labels = idn ? value.split(/[.\u3002\uFF0E\uFF61]/) : value.split('.');
+	for (let label of labels) {
+		if (!label) {
+			return localize('hostnameEmptyLabel', 'Host name contains an empty label.');
+		}
+		if (label.length > 63) {
+			return localize('hostnameLabelTooLong', 'Host name label "{0}" is longer than 63 characters.', label);
+		}
+		if (!(idn ? idnHostnameLabelPattern : hostnameLabelPattern).test(label)) {
+			return localize('hostnameInvalidLabel', 'Host name label "{0}" must only contain letters, digits and hyphens, and must not start or end with a hyphen.', label);
+		}
+	}
+	return null;
+}
+
+function validateIdnEmail(value: string): string {
+	let atIndex = value.lastIndexOf('@');
+	if (atIndex <= 0) {
+		return localize('emailFormatWarning', 'String is not an e-mail address.');
+	}
+	let localPart = value.substr(0, atIndex), domain = value.substr(atIndex + 1);
+	if (!idnEmailLocalPartPattern.test(localPart)) {
+		return localize('emailLocalPartWarning', 'String is not an e-mail address: the local part "{0}" is not valid.', localPart);
+	}
+	let addressLiteral = domain.match(/^\[(.*)\]$/);
+	if (addressLiteral) {
+		return ipv4Pattern.test(addressLiteral[1]) || /^IPv6:/.test(addressLiteral[1]) && isIPv6(addressLiteral[1].substr(5)) ? null :
+			localize('emailAddressLiteralWarning', 'String is not an e-mail address: "{0}" is not an IP address.', addressLiteral[1]);
+	}
+	let errorMessage = validateHostname(domain, true);
+	return errorMessage && localize('emailDomainWarning', 'String is not an e-mail address: {0}', errorMessage);
+}
+
+function validateRegex(value: string): string {
+	try {
+		RegExp(value); // throws if the pattern is invalid
+		return null;
+	} catch (e) {
+		return localize('regexFormatWarning', 'String is not a valid regular expression: {0}', e.message);
+	}
+}
+
+/**
+ * The JSON schema dialects that are distinguished by the validator.
+ */
+export enum SchemaDraft {
+	v3 = 3, v4 = 4, v6 = 6, v7 = 7, v2019_09 = 19, v2020_12 = 20
+}
+
+const schemaDrafts: { [id: string]: SchemaDraft } = {
+	'json-schema.org/draft-03/schema': SchemaDraft.v3,
+	'json-schema.org/draft-04/schema': SchemaDraft.v4,
+	'json-schema.org/draft-06/schema': SchemaDraft.v6,
+	'json-schema.org/draft-07/schema': SchemaDraft.v7,
+	'json-schema.org/draft/2019-09/schema': SchemaDraft.v2019_09,
+	'json-schema.org/draft/2020-12/schema': SchemaDraft.v2020_12
+};
+
+/**
+ * Returns the dialect of a schema from its `$schema` URI, or undefined if the dialect is not known.
+ */
+export function getSchemaDraft(schemaId: string): SchemaDraft {
+	if (typeof schemaId === 'string') {
+		let match = schemaId.match(/^https?:\/\/(.*?)#?$/);
+		if (match && schemaDrafts.hasOwnProperty(match[1])) {
+			return schemaDrafts[match[1]];
+		}
+	}
+	return void 0;
+}
+
+export interface ValidationOptions {
+	/**
+	 * Defines whether `format` is an assertion. If set to false, `format` is only an annotation and values are not validated against it.
+	 * Defaults to true.
+	 */
+	formatAssertion?: boolean;
+	/**
+	 * Validators for custom formats. They take precedence over the built-in format validators.
+	 */
+	formatValidators?: { [format: string]: FormatValidator };
+	/**
+	 * Validators for custom schema keywords.
+	 */
+	keywordValidators?: { [keyword: string]: KeywordValidator };
+	/**
+	 * Defines whether values that fail `anyOf` or `oneOf` get a problem that explains, alternative by alternative, why the value does
+	 * not match. Defaults to false, where only the problems of the best matching alternative are reported.
+	 */
+	explainAlternatives?: boolean;
+}
+
+export interface ValidationContext extends ValidationOptions {
+	/**
+	 * The dialect of the schema. If not known, the keywords of all drafts are validated.
+	 */
+	schemaDraft?: SchemaDraft;
+	/**
+	 * If cancelled, the validation stops walking the document.
+	 */
+	token?: CancellationToken;
+}
+
+function isCancelled(context: ValidationContext): boolean {
+	return !!context.token && context.token.isCancellationRequested;
+}
+
+function isDraftAtLeast(context: ValidationContext, draft: SchemaDraft): boolean {
+	return context.schemaDraft === void 0 || context.schemaDraft >= draft;
+}
+
+function isDraftBefore(context: ValidationContext, draft: SchemaDraft): boolean {
+	return context.schemaDraft === void 0 || context.schemaDraft < draft;
+}
 
 export enum ProblemSeverity {
 	Ignore = 'ignore', Error = 'error', Warning = 'warning'
@@ -48,23 +345,106 @@ export interface IProblem {
 	location: IRange;
 	severity: ProblemSeverity;
 	code?: ErrorCode;
+	/**
+	 * The schema keyword that is violated, e.g. `required` or `maxLength`.
+	 */
+	keyword?: string;
+	/**
+	 * The (sub)schema that contains the violated keyword.
+	 */
+	schema?: JSONSchema;
 	message: string;
+	/**
+	 * Structured information about the problem, e.g. the name of a missing property. Used to compute quick fixes.
+	 */
+	data?: { [key: string]: any };
+}
+
+/**
+ * Explains whether a value matches an alternative of `anyOf` or `oneOf`. Reported in `data.alternatives` of the
+ * `NoAlternativeMatches` and `OneOfMultipleMatches` problems when `ValidationOptions.explainAlternatives` is set.
+ */
+export interface AlternativeExplanation {
+	/**
+	 * The index of the alternative in the `anyOf` or `oneOf` array.
+	 */
+	index: number;
+	/**
+	 * The `title` of the alternative, if it has one.
+	 */
+	title?: string;
+	matches: boolean;
+	/**
+	 * The problems that make the value not match the alternative. Empty if the value matches.
+	 */
+	problems: { location: IRange; code?: ErrorCode; keyword?: string; message: string }[];
 }
 
+/**
+ * The node classes, discriminated by their `type`. Each node is an instance of one of them.
+ */
+export type TypedASTNode = ObjectASTNode | PropertyASTNode | ArrayASTNode | StringASTNode | NumberASTNode | BooleanASTNode | NullASTNode;
+
+// counts the moves of nodes by the incremental parse: a shift cached before a move may be outdated
+let moveCount = 0;
+
 export class ASTNode {
-	public start: number;
-	public end: number;
-	public type: string;
-	public parent: ASTNode;
+	public type: ASTNodeType;
+	public parent: TypedASTNode;
 
 	public location: Json.Segment;
 
-	constructor(parent: ASTNode, type: string, location: Json.Segment, start: number, end?: number) {
+	// the offsets in the parsed text. A node taken over by the parse of a changed text keeps them and gets a shift instead: the offsets
+	// of a node are the parsed ones plus the shifts of the node and its ancestors.
+	private parsedStart: number;
+	private parsedEnd: number;
+	private shift = 0;
+	private cachedShift = 0;
+	private cachedShiftMoveCount: number;
+
+	constructor(parent: TypedASTNode, type: ASTNodeType, location: Json.Segment, start: number, end?: number) {
 		this.type = type;
 		this.location = location;
-		this.start = start;
-		this.end = end;
 		this.parent = parent;
+		// the parse creates the nodes under new parents, in the parsed text: they have no shift
+		this.parsedStart = start;
+		this.parsedEnd = end;
+		this.cachedShiftMoveCount = moveCount;
+	}
+
+	public get start(): number {
+		return this.parsedStart + this.getShift();
+	}
+
+	public get end(): number {
+		return this.parsedEnd + this.getShift();
+	}
+
+	public set end(end: number) {
+		this.parsedEnd = end - this.getShift();
+	}
+
+	/**
+	 * Returns the shift of the offsets of the node, resolved from the node and its ancestors.
+	 */
+	protected getShift(): number {
+		if (this.cachedShiftMoveCount !== moveCount) {
+			this.cachedShift = this.shift + (this.parent ? (<ASTNode>this.parent).getShift() : 0);
+			this.cachedShiftMoveCount = moveCount;
+		}
+		return this.cachedShift;
+	}
+
+	/**
+	 * Moves the node with its subtree to the given parent and shifts its offsets by `delta`. Used by the incremental parse to take
+	 * over the node from the previous document: the subtree is not visited.
+	 */
+	public moveTo(parent: TypedASTNode, location: Json.Segment, delta: number): void {
+		let shift = this.getShift() + delta;
+		this.parent = parent;
+		this.location = location;
+		this.shift = shift - (parent ? (<ASTNode>parent).getShift() : 0);
+		moveCount++;
 	}
 
 	public getPath(): Json.JSONPath {
@@ -76,11 +456,15 @@ export class ASTNode {
 	}
 
 
-	public getChildNodes(): ASTNode[] {
+	public get children(): TypedASTNode[] {
+		return this.getChildNodes();
+	}
+
+	public getChildNodes(): TypedASTNode[] {
 		return [];
 	}
 
-	public getLastChild(): ASTNode {
+	public getLastChild(): TypedASTNode {
 		return null;
 	}
 
@@ -97,12 +481,12 @@ export class ASTNode {
 		return 'type: ' + this.type + ' (' + this.start + '/' + this.end + ')' + (this.parent ? ' parent: {' + this.parent.toString() + '}' : '');
 	}
 
-	public visit(visitor: (node: ASTNode) => boolean): boolean {
+	public visit(this: TypedASTNode, visitor: (node: TypedASTNode) => boolean): boolean {
 		return visitor(this);
 	}
 
-	public getNodeFromOffset(offset: number): ASTNode {
-		let findNode = (node: ASTNode): ASTNode => {
+	public getNodeFromOffset(this: TypedASTNode, offset: number): TypedASTNode {
+		let findNode = (node: TypedASTNode): TypedASTNode => {
 			if (offset >= node.start && offset < node.end) {
 				let children = node.getChildNodes();
 				for (let i = 0; i < children.length && children[i].start <= offset; i++) {
@@ -118,8 +502,8 @@ export class ASTNode {
 		return findNode(this);
 	}
 
-	public getNodeFromOffsetEndInclusive(offset: number): ASTNode {
-		let findNode = (node: ASTNode): ASTNode => {
+	public getNodeFromOffsetEndInclusive(this: TypedASTNode, offset: number): TypedASTNode {
+		let findNode = (node: TypedASTNode): TypedASTNode => {
 			if (offset >= node.start && offset <= node.end) {
 				let children = node.getChildNodes();
 				for (let i = 0; i < children.length && children[i].start <= offset; i++) {
@@ -135,43 +519,59 @@ export class ASTNode {
 		return findNode(this);
 	}
 
-	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector): void {
-		if (!matchingSchemas.include(this)) {
+	/**
+	 * Whether the node is a value of the schema type.
+	 */
+	protected matchesType(type: string): boolean {
+		return this.type === type;
+	}
+
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector, context: ValidationContext): void {
+		if (!matchingSchemas.include(this) || isCancelled(context)) {
 			return;
 		}
 
 		if (Array.isArray(schema.type)) {
-			if ((<string[]>schema.type).indexOf(this.type) === -1) {
+			if (!(<string[]>schema.type).some(type => this.matchesType(type))) {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.TypeMismatch,
+					keyword: 'type',
+					schema,
 					message: schema.errorMessage || localize('typeArrayMismatchWarning', 'Incorrect type. Expected one of {0}.', (<string[]>schema.type).join(', '))
 				});
 			}
 		}
 		else if (schema.type) {
-			if (this.type !== schema.type) {
+			if (!this.matchesType(<string>schema.type)) {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.TypeMismatch,
+					keyword: 'type',
+					schema,
 					message: schema.errorMessage || localize('typeMismatchWarning', 'Incorrect type. Expected "{0}".', schema.type)
 				});
 			}
 		}
 		if (Array.isArray(schema.allOf)) {
 			schema.allOf.forEach(subSchemaRef => {
-				this.validate(asSchema(subSchemaRef), validationResult, matchingSchemas);
+				this.validate(asSchema(subSchemaRef), validationResult, matchingSchemas, context);
 			});
 		}
 		let notSchema = asSchema(schema.not);
 		if (notSchema) {
 			let subValidationResult = new ValidationResult();
 			let subMatchingSchemas = matchingSchemas.newSub();
-			this.validate(notSchema, subValidationResult, subMatchingSchemas);
+			this.validate(notSchema, subValidationResult, subMatchingSchemas, context);
 			if (!subValidationResult.hasProblems()) {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.NotSchemaMatch,
+					keyword: 'not',
+					schema,
 					message: localize('notSchemaWarning', "Matches a schema that is not allowed.")
 				});
 			}
@@ -181,54 +581,137 @@ export class ASTNode {
 			});
 		}
 
+		let testCondition = (ifSchema: JSONSchema, thenSchema?: JSONSchema, elseSchema?: JSONSchema) => {
+			let subValidationResult = new ValidationResult();
+			let subMatchingSchemas = matchingSchemas.newSub();
+			this.validate(ifSchema, subValidationResult, subMatchingSchemas, context);
+			matchingSchemas.merge(subMatchingSchemas);
+
+			if (!subValidationResult.hasProblems()) {
+				validationResult.mergeEvaluated(subValidationResult);
+				if (thenSchema) {
+					testBranch(thenSchema);
+				}
+			} else if (elseSchema) {
+				testBranch(elseSchema);
+			}
+		};
+
+		let testBranch = (branchSchema: JSONSchema) => {
+			let subValidationResult = new ValidationResult();
+			let subMatchingSchemas = matchingSchemas.newSub();
+			this.validate(branchSchema, subValidationResult, subMatchingSchemas, context);
+			validationResult.merge(subValidationResult);
+			validationResult.propertiesMatches += subValidationResult.propertiesMatches;
+			validationResult.propertiesValueMatches += subValidationResult.propertiesValueMatches;
+			validationResult.mergeEvaluated(subValidationResult);
+			matchingSchemas.merge(subMatchingSchemas);
+		};
+
+		let ifSchema = asSchema(schema.if);
+		if (ifSchema) {
+			testCondition(ifSchema, asSchema(schema.then), asSchema(schema.else));
+		}
+
 		let testAlternatives = (alternatives: JSONSchemaRef[], maxOneMatch: boolean) => {
 			let matches = [];
 
-			// remember the best match that is used for error messages
-			let bestMatch: { schema: JSONSchema; validationResult: ValidationResult; matchingSchemas: ISchemaCollector; } = null;
-			alternatives.forEach(subSchemaRef => {
-				let subSchema = asSchema(subSchemaRef);
+			let explanations: AlternativeExplanation[] = [];
+
+			// all alternatives are validated to count the matches
+			let subSchemas = alternatives.map(asSchema);
+			let results: { schema: JSONSchema; validationResult: ValidationResult; matchingSchemas: ISchemaCollector; }[] = [];
+			subSchemas.forEach((subSchema, index) => {
 				let subValidationResult = new ValidationResult();
 				let subMatchingSchemas = matchingSchemas.newSub();
-				this.validate(subSchema, subValidationResult, subMatchingSchemas);
+				this.validate(subSchema, subValidationResult, subMatchingSchemas, context);
 				if (!subValidationResult.hasProblems()) {
 					matches.push(subSchema);
+					validationResult.mergeEvaluated(subValidationResult);
 				}
-				if (!bestMatch) {
-					bestMatch = { schema: subSchema, validationResult: subValidationResult, matchingSchemas: subMatchingSchemas };
-				} else {
-					if (!maxOneMatch && !subValidationResult.hasProblems() && !bestMatch.validationResult.hasProblems()) {
+				if (context.explainAlternatives) {
+					// take the problems now: merging the enum values of equally good matches changes the messages
+					explanations.push({
+						index,
+						title: typeof subSchema.title === 'string' ? subSchema.title : void 0,
+						matches: !subValidationResult.hasProblems(),
+						problems: subValidationResult.problems.map(p => ({ location: p.location, code: p.code, keyword: p.keyword, message: p.message }))
+					});
+				}
+				results.push({ schema: subSchema, validationResult: subValidationResult, matchingSchemas: subMatchingSchemas });
+			});
+
+			// remember the best match that is used for error messages
+			let bestMatch: { schema: JSONSchema; validationResult: ValidationResult; matchingSchemas: ISchemaCollector; } = null;
+			// the alternative selected by the value of a discriminator property is the best match, unless it fails while another one matches
+			let selected = selectAlternative(this, schema, subSchemas, matchingSchemas);
+			if (selected !== -1 && (!results[selected].validationResult.hasProblems() || matches.length === 0)) {
+				bestMatch = results[selected];
+			} else {
+				for (let result of results) {
+					if (!bestMatch) {
+						bestMatch = result;
+					} else if (!maxOneMatch && !result.validationResult.hasProblems() && !bestMatch.validationResult.hasProblems()) {
 						// no errors, both are equally good matches
-						bestMatch.matchingSchemas.merge(subMatchingSchemas);
-						bestMatch.validationResult.propertiesMatches += subValidationResult.propertiesMatches;
-						bestMatch.validationResult.propertiesValueMatches += subValidationResult.propertiesValueMatches;
+						bestMatch.matchingSchemas.merge(result.matchingSchemas);
+						bestMatch.validationResult.propertiesMatches += result.validationResult.propertiesMatches;
+						bestMatch.validationResult.propertiesValueMatches += result.validationResult.propertiesValueMatches;
 					} else {
-						let compareResult = subValidationResult.compare(bestMatch.validationResult);
+						let compareResult = result.validationResult.compare(bestMatch.validationResult);
 						if (compareResult > 0) {
 							// our node is the best matching so far
-							bestMatch = { schema: subSchema, validationResult: subValidationResult, matchingSchemas: subMatchingSchemas };
+							bestMatch = result;
 						} else if (compareResult === 0) {
 							// there's already a best matching but we are as good
-							bestMatch.matchingSchemas.merge(subMatchingSchemas);
-							bestMatch.validationResult.mergeEnumValues(subValidationResult);
+							bestMatch.matchingSchemas.merge(result.matchingSchemas);
+							bestMatch.validationResult.mergeEnumValues(result.validationResult);
 						}
 					}
 				}
-			});
+			}
 
 			if (matches.length > 1 && maxOneMatch) {
-				validationResult.problems.push({
-					location: { start: this.start, end: this.start + 1 },
-					severity: ProblemSeverity.Warning,
-					message: localize('oneOfWarning', "Matches multiple schemas when only one must validate.")
-				});
+				if (context.explainAlternatives) {
+					let matching = explanations.filter(e => e.matches);
+					validationResult.problems.push({
+						location: { start: this.start, end: this.start + 1 },
+						severity: ProblemSeverity.Warning,
+						code: ErrorCode.OneOfMultipleMatches,
+						keyword: 'oneOf',
+						schema,
+						message: localize('oneOfExplainedWarning', "Matches multiple schemas when only one must validate: {0}.", matching.map(getAlternativeLabel).join(', ')),
+						data: { alternatives: matching }
+					});
+				} else {
+					validationResult.problems.push({
+						location: { start: this.start, end: this.start + 1 },
+						severity: ProblemSeverity.Warning,
+						code: ErrorCode.OneOfMultipleMatches,
+						keyword: 'oneOf',
+						schema,
+						message: localize('oneOfWarning', "Matches multiple schemas when only one must validate.")
+					});
+				}
 			}
 			if (bestMatch !== null) {
 				validationResult.merge(bestMatch.validationResult);
 				validationResult.propertiesMatches += bestMatch.validationResult.propertiesMatches;
 				validationResult.propertiesValueMatches += bestMatch.validationResult.propertiesValueMatches;
+				validationResult.mergeEvaluated(bestMatch.validationResult);
 				matchingSchemas.merge(bestMatch.matchingSchemas);
 			}
+			if (matches.length === 0 && context.explainAlternatives && explanations.length) {
+				let lines = explanations.map(e => getAlternativeLabel(e) + ': ' + e.problems.map(p => p.message).join(' '));
+				validationResult.problems.push({
+					location: { start: this.start, end: this.start + 1 },
+					severity: ProblemSeverity.Warning,
+					code: ErrorCode.NoAlternativeMatches,
+					keyword: maxOneMatch ? 'oneOf' : 'anyOf',
+					schema,
+					message: localize('noAlternativeMatchWarning', "Value does not match any of the alternatives:\n{0}", lines.join('\n')),
+					data: { alternatives: explanations }
+				});
+			}
 			return matches.length;
 		};
 		if (Array.isArray(schema.anyOf)) {
@@ -254,7 +737,10 @@ export class ASTNode {
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
 					code: ErrorCode.EnumValueMismatch,
-					message: schema.errorMessage || localize('enumWarning', 'Value is not accepted. Valid values: {0}.', schema.enum.map(v => JSON.stringify(v)).join(', '))
+					keyword: 'enum',
+					schema,
+					message: schema.errorMessage || localize('enumWarning', 'Value is not accepted. Valid values: {0}.', schema.enum.map(v => JSON.stringify(v)).join(', ')),
+					data: { values: schema.enum }
 				});
 			}
 		}
@@ -266,7 +752,10 @@ export class ASTNode {
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
 					code: ErrorCode.EnumValueMismatch,
-					message: schema.errorMessage || localize('constWarning', 'Value must be {0}.', JSON.stringify(schema.const))
+					keyword: 'const',
+					schema,
+					message: schema.errorMessage || localize('constWarning', 'Value must be {0}.', JSON.stringify(schema.const)),
+					data: { values: [schema.const] }
 				});
 				validationResult.enumValueMatch = false;
 			} else {
@@ -275,10 +764,36 @@ export class ASTNode {
 			validationResult.enumValues = [schema.const];
 		}
 
+		if (context.keywordValidators) {
+			for (let keyword in context.keywordValidators) {
+				let keywordValue = (<any>schema)[keyword];
+				if (context.keywordValidators.hasOwnProperty(keyword) && typeof keywordValue !== 'undefined') {
+					let problems: ProblemCollector = {
+						add: (message, node?) => {
+							let target = node || this;
+							validationResult.problems.push({
+								location: { start: target.start, end: target.end },
+								severity: ProblemSeverity.Warning,
+								code: ErrorCode.CustomKeywordMismatch,
+								keyword,
+								schema,
+								message
+							});
+						}
+					};
+					// every node is an instance of one of the node classes
+					context.keywordValidators[keyword](<TypedASTNode>this, keywordValue, problems, schema);
+				}
+			}
+		}
+
 		if (schema.deprecationMessage && this.parent) {
 			validationResult.problems.push({
 				location: { start: this.parent.start, end: this.parent.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.Deprecated,
+				keyword: 'deprecationMessage',
+				schema,
 				message: schema.deprecationMessage
 			});
 		}
@@ -286,9 +801,11 @@ export class ASTNode {
 	}
 }
 
-export class NullASTNode extends ASTNode {
+export class NullASTNode extends ASTNode implements INullASTNode {
+
+	public type: 'null';
 
-	constructor(parent: ASTNode, name: Json.Segment, start: number, end?: number) {
+	constructor(parent: TypedASTNode, name: Json.Segment, start: number, end?: number) {
 		super(parent, 'null', name, start, end);
 	}
 
@@ -297,11 +814,12 @@ export class NullASTNode extends ASTNode {
 	}
 }
 
-export class BooleanASTNode extends ASTNode {
+export class BooleanASTNode extends ASTNode implements IBooleanASTNode {
 
-	private value: boolean;
+	public type: 'boolean';
+	public value: boolean;
 
-	constructor(parent: ASTNode, name: Json.Segment, value: boolean, start: number, end?: number) {
+	constructor(parent: TypedASTNode, name: Json.Segment, value: boolean, start: number, end?: number) {
 		super(parent, 'boolean', name, start, end);
 		this.value = value;
 	}
@@ -312,20 +830,21 @@ export class BooleanASTNode extends ASTNode {
 
 }
 
-export class ArrayASTNode extends ASTNode {
+export class ArrayASTNode extends ASTNode implements IArrayASTNode {
 
-	public items: ASTNode[];
+	public type: 'array';
+	public items: TypedASTNode[];
 
-	constructor(parent: ASTNode, name: Json.Segment, start: number, end?: number) {
+	constructor(parent: TypedASTNode, name: Json.Segment, start: number, end?: number) {
 		super(parent, 'array', name, start, end);
 		this.items = [];
 	}
 
-	public getChildNodes(): ASTNode[] {
+	public getChildNodes(): TypedASTNode[] {
 		return this.items;
 	}
 
-	public getLastChild(): ASTNode {
+	public getLastChild(): TypedASTNode {
 		return this.items[this.items.length - 1];
 	}
 
@@ -333,7 +852,7 @@ export class ArrayASTNode extends ASTNode {
 		return this.items.map((v) => v.getValue());
 	}
 
-	public addItem(item: ASTNode): boolean {
+	public addItem(item: TypedASTNode): boolean {
 		if (item) {
 			this.items.push(item);
 			return true;
@@ -341,7 +860,7 @@ export class ArrayASTNode extends ASTNode {
 		return false;
 	}
 
-	public visit(visitor: (node: ASTNode) => boolean): boolean {
+	public visit(visitor: (node: TypedASTNode) => boolean): boolean {
 		let ctn = visitor(this);
 		for (let i = 0; i < this.items.length && ctn; i++) {
 			ctn = this.items[i].visit(visitor);
@@ -349,72 +868,128 @@ export class ArrayASTNode extends ASTNode {
 		return ctn;
 	}
 
-	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector): void {
-		if (!matchingSchemas.include(this)) {
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector, context: ValidationContext): void {
+		if (!matchingSchemas.include(this) || isCancelled(context)) {
 			return;
 		}
-		super.validate(schema, validationResult, matchingSchemas);
-
-		if (Array.isArray(schema.items)) {
-			let subSchemas = schema.items;
+		super.validate(schema, validationResult, matchingSchemas, context);
+
+		// tuple validation: 'prefixItems' followed by 'items' since 2020-12, 'items' followed by 'additionalItems' before
+		let tupleSchemas: JSONSchemaRef[] = null;
+		let restSchema: JSONSchemaRef;
+		let restKeyword: string;
+		if (Array.isArray(schema.prefixItems) && isDraftAtLeast(context, SchemaDraft.v2020_12)) {
+			tupleSchemas = schema.prefixItems;
+			restSchema = <JSONSchemaRef>schema.items;
+			restKeyword = 'items';
+		} else if (Array.isArray(schema.items)) {
+			tupleSchemas = schema.items;
+			restSchema = schema.additionalItems;
+			restKeyword = 'additionalItems';
+		}
+		if (tupleSchemas) {
+			let subSchemas = tupleSchemas;
 			subSchemas.forEach((subSchemaRef, index) => {
 				let subSchema = asSchema(subSchemaRef);
 				let itemValidationResult = new ValidationResult();
 				let item = this.items[index];
 				if (item) {
-					item.validate(subSchema, itemValidationResult, matchingSchemas);
+					item.validate(subSchema, itemValidationResult, matchingSchemas, context);
 					validationResult.mergePropertyMatch(itemValidationResult);
+					validationResult.evaluatedItems[index] = true;
 				} else if (this.items.length >= subSchemas.length) {
 					validationResult.propertiesValueMatches++;
 				}
 			});
 			if (this.items.length > subSchemas.length) {
-				if (typeof schema.additionalItems === 'object') {
+				if (typeof restSchema === 'object') {
 					for (let i = subSchemas.length; i < this.items.length; i++) {
 						let itemValidationResult = new ValidationResult();
-						this.items[i].validate(<any>schema.additionalItems, itemValidationResult, matchingSchemas);
+						this.items[i].validate(<any>restSchema, itemValidationResult, matchingSchemas, context);
 						validationResult.mergePropertyMatch(itemValidationResult);
+						validationResult.evaluatedItems[i] = true;
 					}
-				} else if (schema.additionalItems === false) {
+				} else if (restSchema === false) {
 					validationResult.problems.push({
 						location: { start: this.start, end: this.end },
 						severity: ProblemSeverity.Warning,
+						code: ErrorCode.AdditionalItemsNotAllowed,
+						keyword: restKeyword,
+						schema,
 						message: localize('additionalItemsWarning', 'Array has too many items according to schema. Expected {0} or fewer.', subSchemas.length)
 					});
+				} else if (restSchema === true) {
+					for (let i = subSchemas.length; i < this.items.length; i++) {
+						validationResult.evaluatedItems[i] = true;
+					}
 				}
 			}
 		} else {
-			let itemSchema = asSchema(schema.items);
+			let itemSchema = asSchema(<JSONSchemaRef>schema.items);
 			if (itemSchema) {
-				this.items.forEach((item) => {
+				this.items.forEach((item, index) => {
 					let itemValidationResult = new ValidationResult();
-					item.validate(itemSchema, itemValidationResult, matchingSchemas);
+					item.validate(itemSchema, itemValidationResult, matchingSchemas, context);
 					validationResult.mergePropertyMatch(itemValidationResult);
+					validationResult.evaluatedItems[index] = true;
 				});
 			}
 		}
 
 		let containsSchema = asSchema(schema.contains);
 		if (containsSchema) {
-			let doesContain = this.items.some(item => {
+			let containedCount = 0;
+			this.items.forEach((item, index) => {
 				let itemValidationResult = new ValidationResult();
-				item.validate(containsSchema, itemValidationResult, NoOpSchemaCollector.instance);
-				return !itemValidationResult.hasProblems();
+				item.validate(containsSchema, itemValidationResult, NoOpSchemaCollector.instance, context);
+				if (!itemValidationResult.hasProblems()) {
+					containedCount++;
+					if (isDraftAtLeast(context, SchemaDraft.v2020_12)) {
+						validationResult.evaluatedItems[index] = true;
+					}
+				}
 			});
-
-			if (!doesContain) {
+			let hasContainsLimits = isDraftAtLeast(context, SchemaDraft.v2019_09);
+			if (hasContainsLimits && typeof schema.minContains === 'number') {
+				if (containedCount < schema.minContains) {
+					validationResult.problems.push({
+						location: { start: this.start, end: this.end },
+						severity: ProblemSeverity.Warning,
+						code: ErrorCode.TooFewContainedItems,
+						keyword: 'minContains',
+						schema,
+						message: schema.errorMessage || localize('minContainsWarning', 'Array has too few items that match the contains schema. Expected {0} or more.', schema.minContains)
+					});
+				}
+			} else if (containedCount === 0) {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.ContainsMismatch,
+					keyword: 'contains',
+					schema,
 					message: schema.errorMessage || localize('requiredItemMissingWarning', 'Array does not contain required item.', schema.minItems)
 				});
 			}
+			if (hasContainsLimits && typeof schema.maxContains === 'number' && containedCount > schema.maxContains) {
+				validationResult.problems.push({
+					location: { start: this.start, end: this.end },
+					severity: ProblemSeverity.Warning,
+					code: ErrorCode.TooManyContainedItems,
+					keyword: 'maxContains',
+					schema,
+					message: schema.errorMessage || localize('maxContainsWarning', 'Array has too many items that match the contains schema. Expected {0} or fewer.', schema.maxContains)
+				});
+			}
 		}
 
 		if (schema.minItems && this.items.length < schema.minItems) {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.TooFewItems,
+				keyword: 'minItems',
+				schema,
 				message: localize('minItemsWarning', 'Array has too few items. Expected {0} or more.', schema.minItems)
 			});
 		}
@@ -423,6 +998,9 @@ export class ArrayASTNode extends ASTNode {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.TooManyItems,
+				keyword: 'maxItems',
+				schema,
 				message: localize('maxItemsWarning', 'Array has too many items. Expected {0} or fewer.', schema.minItems)
 			});
 		}
@@ -438,19 +1016,45 @@ export class ArrayASTNode extends ASTNode {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.DuplicateItems,
+					keyword: 'uniqueItems',
+					schema,
 					message: localize('uniqueItemsWarning', 'Array has duplicate items.')
 				});
 			}
 		}
+
+		if (schema.unevaluatedItems !== void 0 && isDraftAtLeast(context, SchemaDraft.v2019_09)) {
+			this.items.forEach((item, index) => {
+				if (!validationResult.evaluatedItems[index]) {
+					if (schema.unevaluatedItems === false) {
+						validationResult.problems.push({
+							location: { start: item.start, end: item.end },
+							severity: ProblemSeverity.Warning,
+							code: ErrorCode.UnevaluatedItemNotAllowed,
+							keyword: 'unevaluatedItems',
+							schema,
+							message: schema.errorMessage || localize('unevaluatedItemsWarning', 'Item {0} is not allowed.', index)
+						});
+					} else {
+						let itemValidationResult = new ValidationResult();
+						item.validate(asSchema(schema.unevaluatedItems), itemValidationResult, matchingSchemas, context);
+						validationResult.mergePropertyMatch(itemValidationResult);
+					}
+					validationResult.evaluatedItems[index] = true;
+				}
+			});
+		}
 	}
 }
 
-export class NumberASTNode extends ASTNode {
+export class NumberASTNode extends ASTNode implements INumberASTNode {
 
+	public type: 'number';
 	public isInteger: boolean;
 	public value: number;
 
-	constructor(parent: ASTNode, name: Json.Segment, start: number, end?: number) {
+	constructor(parent: TypedASTNode, name: Json.Segment, start: number, end?: number) {
 		super(parent, 'number', name, start, end);
 		this.isInteger = true;
 		this.value = Number.NaN;
@@ -460,21 +1064,16 @@ export class NumberASTNode extends ASTNode {
 		return this.value;
 	}
 
-	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector): void {
-		if (!matchingSchemas.include(this)) {
+	protected matchesType(type: string): boolean {
+		return type === 'number' || type === 'integer' && this.isInteger;
+	}
+
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector, context: ValidationContext): void {
+		if (!matchingSchemas.include(this) || isCancelled(context)) {
 			return;
 		}
 
-		// work around type validation in the base class
-		let typeIsInteger = false;
-		if (schema.type === 'integer' || (Array.isArray(schema.type) && (<string[]>schema.type).indexOf('integer') !== -1)) {
-			typeIsInteger = true;
-		}
-		if (typeIsInteger && this.isInteger === true) {
-			this.type = 'integer';
-		}
-		super.validate(schema, validationResult, matchingSchemas);
-		this.type = 'number';
+		super.validate(schema, validationResult, matchingSchemas, context);
 
 		let val = this.getValue();
 
@@ -483,6 +1082,9 @@ export class NumberASTNode extends ASTNode {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.NotMultipleOf,
+					keyword: 'multipleOf',
+					schema,
 					message: localize('multipleOfWarning', 'Value is not divisible by {0}.', schema.multipleOf)
 				});
 			}
@@ -507,6 +1109,9 @@ export class NumberASTNode extends ASTNode {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.BelowExclusiveMinimum,
+				keyword: 'exclusiveMinimum',
+				schema,
 				message: localize('exclusiveMinimumWarning', 'Value is below the exclusive minimum of {0}.', exclusiveMinimum)
 			});
 		}
@@ -515,6 +1120,9 @@ export class NumberASTNode extends ASTNode {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.AboveExclusiveMaximum,
+				keyword: 'exclusiveMaximum',
+				schema,
 				message: localize('exclusiveMaximumWarning', 'Value is above the exclusive maximum of {0}.', exclusiveMaximum)
 			});
 		}
@@ -523,6 +1131,9 @@ export class NumberASTNode extends ASTNode {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.BelowMinimum,
+				keyword: 'minimum',
+				schema,
 				message: localize('minimumWarning', 'Value is below the minimum of {0}.', minimum)
 			});
 		}
@@ -531,6 +1142,9 @@ export class NumberASTNode extends ASTNode {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.AboveMaximum,
+				keyword: 'maximum',
+				schema,
 				message: localize('maximumWarning', 'Value is above the maximum of {0}.', maximum)
 			});
 		}
@@ -539,11 +1153,12 @@ export class NumberASTNode extends ASTNode {
 }
 
 
-export class StringASTNode extends ASTNode {
+export class StringASTNode extends ASTNode implements IStringASTNode {
+	public type: 'string';
 	public isKey: boolean;
 	public value: string;
 
-	constructor(parent: ASTNode, name: Json.Segment, isKey: boolean, start: number, end?: number) {
+	constructor(parent: TypedASTNode, name: Json.Segment, isKey: boolean, start: number, end?: number) {
 		super(parent, 'string', name, start, end);
 		this.isKey = isKey;
 		this.value = '';
@@ -553,16 +1168,19 @@ export class StringASTNode extends ASTNode {
 		return this.value;
 	}
 
-	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector): void {
-		if (!matchingSchemas.include(this)) {
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector, context: ValidationContext): void {
+		if (!matchingSchemas.include(this) || isCancelled(context)) {
 			return;
 		}
-		super.validate(schema, validationResult, matchingSchemas);
+		super.validate(schema, validationResult, matchingSchemas, context);
 
 		if (schema.minLength && this.value.length < schema.minLength) {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.StringTooShort,
+				keyword: 'minLength',
+				schema,
 				message: localize('minLengthWarning', 'String is shorter than the minimum length of {0}.', schema.minLength)
 			});
 		}
@@ -571,6 +1189,9 @@ export class StringASTNode extends ASTNode {
 			validationResult.problems.push({
 				location: { start: this.start, end: this.end },
 				severity: ProblemSeverity.Warning,
+				code: ErrorCode.StringTooLong,
+				keyword: 'maxLength',
+				schema,
 				message: localize('maxLengthWarning', 'String is longer than the maximum length of {0}.', schema.maxLength)
 			});
 		}
@@ -581,69 +1202,40 @@ export class StringASTNode extends ASTNode {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.PatternMismatch,
+					keyword: 'pattern',
+					schema,
 					message: schema.patternErrorMessage || schema.errorMessage || localize('patternWarning', 'String does not match the pattern of "{0}".', schema.pattern)
 				});
 			}
 		}
 
-		if (schema.format) {
-			switch (schema.format) {
-				case 'uri':
-				case 'uri-reference': {
-					let errorMessage;
-					if (!this.value) {
-						errorMessage = localize('uriEmpty', 'URI expected.');
-					} else {
-						try {
-							let uri = Uri.parse(this.value);
-							if (!uri.scheme && schema.format === 'uri') {
-								errorMessage = localize('uriSchemeMissing', 'URI with a scheme is expected.');
-							}
-						} catch (e) {
-							errorMessage = e.message;
-						}
-					}
-					if (errorMessage) {
-						validationResult.problems.push({
-							location: { start: this.start, end: this.end },
-							severity: ProblemSeverity.Warning,
-							message: schema.patternErrorMessage || schema.errorMessage || localize('uriFormatWarning', 'String is not a URI: {0}', errorMessage)
-						});
-					}
-				}
-					break;
-				case 'email': {
-					if (!this.value.match(emailPattern)) {
-						validationResult.problems.push({
-							location: { start: this.start, end: this.end },
-							severity: ProblemSeverity.Warning,
-							message: schema.patternErrorMessage || schema.errorMessage || localize('emailFormatWarning', 'String is not an e-mail address.')
-						});
-					}
-				}
-					break;
-				case 'color-hex': {
-					if (!this.value.match(colorHexPattern)) {
-						validationResult.problems.push({
-							location: { start: this.start, end: this.end },
-							severity: ProblemSeverity.Warning,
-							message: schema.patternErrorMessage || schema.errorMessage || localize('colorHexFormatWarning', 'Invalid color format. Use #RGB, #RGBA, #RRGGBB or #RRGGBBAA.')
-						});
-					}
-				}
-					break;
-				default:
+		if (schema.format && context.formatAssertion !== false) {
+			let formatValidator = context.formatValidators && context.formatValidators.hasOwnProperty(schema.format) ? context.formatValidators[schema.format] :
+				formatValidators.hasOwnProperty(schema.format) ? formatValidators[schema.format] : null;
+			let errorMessage = formatValidator && formatValidator(this.value);
+			if (errorMessage) {
+				validationResult.problems.push({
+					location: { start: this.start, end: this.end },
+					severity: ProblemSeverity.Warning,
+					code: ErrorCode.FormatMismatch,
+					keyword: 'format',
+					schema,
+					message: schema.patternErrorMessage || schema.errorMessage || errorMessage,
+					data: { format: schema.format }
+				});
 			}
 		}
 	}
 }
 
-export class PropertyASTNode extends ASTNode {
+export class PropertyASTNode extends ASTNode implements IPropertyASTNode {
+	public type: 'property';
 	public key: StringASTNode;
-	public value: ASTNode;
-	public colonOffset: number;
+	public value: TypedASTNode;
+	private parsedColonOffset: number;
 
-	constructor(parent: ASTNode, key: StringASTNode) {
+	constructor(parent: TypedASTNode, key: StringASTNode) {
 		super(parent, 'property', null, key.start);
 		this.key = key;
 		key.parent = this;
@@ -651,47 +1243,64 @@ export class PropertyASTNode extends ASTNode {
 		this.colonOffset = -1;
 	}
 
-	public getChildNodes(): ASTNode[] {
+	public get colonOffset(): number {
+		return this.parsedColonOffset === -1 ? -1 : this.parsedColonOffset + this.getShift();
+	}
+
+	public set colonOffset(colonOffset: number) {
+		this.parsedColonOffset = colonOffset === -1 ? -1 : colonOffset - this.getShift();
+	}
+
+	public get keyNode(): StringASTNode {
+		return this.key;
+	}
+
+	public get valueNode(): TypedASTNode {
+		return this.value;
+	}
+
+	public getChildNodes(): TypedASTNode[] {
 		return this.value ? [this.key, this.value] : [this.key];
 	}
 
-	public getLastChild(): ASTNode {
+	public getLastChild(): TypedASTNode {
 		return this.value;
 	}
 
-	public setValue(value: ASTNode): boolean {
+	public setValue(value: TypedASTNode): boolean {
 		this.value = value;
 		return value !== null;
 	}
 
-	public visit(visitor: (node: ASTNode) => boolean): boolean {
-		return visitor(this) && this.key.visit(visitor) && this.value && this.value.visit(visitor);
+	public visit(visitor: (node: TypedASTNode) => boolean): boolean {
+		return visitor(this) && this.key.visit(visitor) && (!this.value || this.value.visit(visitor));
 	}
 
-	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector): void {
-		if (!matchingSchemas.include(this)) {
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector, context: ValidationContext): void {
+		if (!matchingSchemas.include(this) || isCancelled(context)) {
 			return;
 		}
 		if (this.value) {
-			this.value.validate(schema, validationResult, matchingSchemas);
+			this.value.validate(schema, validationResult, matchingSchemas, context);
 		}
 	}
 }
 
-export class ObjectASTNode extends ASTNode {
+export class ObjectASTNode extends ASTNode implements IObjectASTNode {
+	public type: 'object';
 	public properties: PropertyASTNode[];
 
-	constructor(parent: ASTNode, name: Json.Segment, start: number, end?: number) {
+	constructor(parent: TypedASTNode, name: Json.Segment, start: number, end?: number) {
 		super(parent, 'object', name, start, end);
 
 		this.properties = [];
 	}
 
-	public getChildNodes(): ASTNode[] {
+	public getChildNodes(): TypedASTNode[] {
 		return this.properties;
 	}
 
-	public getLastChild(): ASTNode {
+	public getLastChild(): TypedASTNode {
 		return this.properties[this.properties.length - 1];
 	}
 
@@ -727,7 +1336,7 @@ export class ObjectASTNode extends ASTNode {
 		return value;
 	}
 
-	public visit(visitor: (node: ASTNode) => boolean): boolean {
+	public visit(visitor: (node: TypedASTNode) => boolean): boolean {
 		let ctn = visitor(this);
 		for (let i = 0; i < this.properties.length && ctn; i++) {
 			ctn = this.properties[i].visit(visitor);
@@ -735,12 +1344,12 @@ export class ObjectASTNode extends ASTNode {
 		return ctn;
 	}
 
-	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector): void {
-		if (!matchingSchemas.include(this)) {
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: ISchemaCollector, context: ValidationContext): void {
+		if (!matchingSchemas.include(this) || isCancelled(context)) {
 			return;
 		}
 
-		super.validate(schema, validationResult, matchingSchemas);
+		super.validate(schema, validationResult, matchingSchemas, context);
 		let seenKeys: { [key: string]: ASTNode } = Object.create(null);
 		let unprocessedProperties: string[] = [];
 		this.properties.forEach((node) => {
@@ -757,7 +1366,11 @@ export class ObjectASTNode extends ASTNode {
 					validationResult.problems.push({
 						location: location,
 						severity: ProblemSeverity.Warning,
-						message: localize('MissingRequiredPropWarning', 'Missing property "{0}".', propertyName)
+						code: ErrorCode.MissingRequiredProperty,
+						keyword: 'required',
+						schema,
+						message: localize('MissingRequiredPropWarning', 'Missing property "{0}".', propertyName),
+						data: { property: propertyName }
 					});
 				}
 			});
@@ -778,13 +1391,18 @@ export class ObjectASTNode extends ASTNode {
 				let propertySchema = schema.properties[propertyName];
 				let child = seenKeys[propertyName];
 				if (child) {
+					validationResult.evaluatedProperties[propertyName] = true;
 					if (typeof propertySchema === 'boolean') {
 						if (!propertySchema) {
 							let propertyNode = <PropertyASTNode>child.parent;
 							validationResult.problems.push({
 								location: { start: propertyNode.key.start, end: propertyNode.key.end },
 								severity: ProblemSeverity.Warning,
-								message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName)
+								code: ErrorCode.PropertyNotAllowed,
+								keyword: 'properties',
+								schema,
+								message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName),
+								data: { property: propertyName }
 							});
 						} else {
 							validationResult.propertiesMatches++;
@@ -792,7 +1410,7 @@ export class ObjectASTNode extends ASTNode {
 						}
 					} else {
 						let propertyValidationResult = new ValidationResult();
-						child.validate(propertySchema, propertyValidationResult, matchingSchemas);
+						child.validate(propertySchema, propertyValidationResult, matchingSchemas, context);
 						validationResult.mergePropertyMatch(propertyValidationResult);
 					}
 				}
@@ -808,6 +1426,7 @@ export class ObjectASTNode extends ASTNode {
 						propertyProcessed(propertyName);
 						let child = seenKeys[propertyName];
 						if (child) {
+							validationResult.evaluatedProperties[propertyName] = true;
 							let propertySchema = schema.patternProperties[propertyPattern];
 							if (typeof propertySchema === 'boolean') {
 								if (!propertySchema) {
@@ -815,7 +1434,11 @@ export class ObjectASTNode extends ASTNode {
 									validationResult.problems.push({
 										location: { start: propertyNode.key.start, end: propertyNode.key.end },
 										severity: ProblemSeverity.Warning,
-										message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName)
+										code: ErrorCode.PropertyNotAllowed,
+										keyword: 'patternProperties',
+										schema,
+										message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName),
+										data: { property: propertyName }
 									});
 								} else {
 									validationResult.propertiesMatches++;
@@ -823,7 +1446,7 @@ export class ObjectASTNode extends ASTNode {
 								}
 							} else {
 								let propertyValidationResult = new ValidationResult();
-								child.validate(propertySchema, propertyValidationResult, matchingSchemas);
+								child.validate(propertySchema, propertyValidationResult, matchingSchemas, context);
 								validationResult.mergePropertyMatch(propertyValidationResult);
 							}
 						}
@@ -837,10 +1460,15 @@ export class ObjectASTNode extends ASTNode {
 				let child = seenKeys[propertyName];
 				if (child) {
 					let propertyValidationResult = new ValidationResult();
-					child.validate(<any>schema.additionalProperties, propertyValidationResult, matchingSchemas);
+					child.validate(<any>schema.additionalProperties, propertyValidationResult, matchingSchemas, context);
 					validationResult.mergePropertyMatch(propertyValidationResult);
+					validationResult.evaluatedProperties[propertyName] = true;
 				}
 			});
+		} else if (schema.additionalProperties === true) {
+			unprocessedProperties.forEach((propertyName: string) => {
+				validationResult.evaluatedProperties[propertyName] = true;
+			});
 		} else if (schema.additionalProperties === false) {
 			if (unprocessedProperties.length > 0) {
 				unprocessedProperties.forEach((propertyName: string) => {
@@ -851,7 +1479,11 @@ export class ObjectASTNode extends ASTNode {
 						validationResult.problems.push({
 							location: { start: propertyNode.key.start, end: propertyNode.key.end },
 							severity: ProblemSeverity.Warning,
-							message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName)
+							code: ErrorCode.PropertyNotAllowed,
+							keyword: 'additionalProperties',
+							schema,
+							message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName),
+							data: { property: propertyName }
 						});
 					}
 				});
@@ -863,6 +1495,9 @@ export class ObjectASTNode extends ASTNode {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.TooManyProperties,
+					keyword: 'maxProperties',
+					schema,
 					message: localize('MaxPropWarning', 'Object has more properties than limit of {0}.', schema.maxProperties)
 				});
 			}
@@ -873,52 +1508,199 @@ export class ObjectASTNode extends ASTNode {
 				validationResult.problems.push({
 					location: { start: this.start, end: this.end },
 					severity: ProblemSeverity.Warning,
+					code: ErrorCode.TooFewProperties,
+					keyword: 'minProperties',
+					schema,
 					message: localize('MinPropWarning', 'Object has fewer properties than the required number of {0}', schema.minProperties)
 				});
 			}
 		}
 
-		if (schema.dependencies) {
+		let validateDependentRequired = (key: string, requiredProps: string[], keyword: string) => {
+			requiredProps.forEach((requiredProp: string) => {
+				if (!seenKeys[requiredProp]) {
+					validationResult.problems.push({
+						location: { start: this.start, end: this.end },
+						severity: ProblemSeverity.Warning,
+						code: ErrorCode.MissingDependentProperty,
+						keyword,
+						schema,
+						message: localize('RequiredDependentPropWarning', 'Object is missing property {0} required by property {1}.', requiredProp, key),
+						data: { property: requiredProp, dependency: key }
+					});
+				} else {
+					validationResult.propertiesValueMatches++;
+				}
+			});
+		};
+		let validateDependentSchema = (schemaRef: JSONSchemaRef) => {
+			let propertySchema = asSchema(schemaRef);
+			if (propertySchema) {
+				let propertyValidationResult = new ValidationResult();
+				this.validate(propertySchema, propertyValidationResult, matchingSchemas, context);
+				validationResult.mergePropertyMatch(propertyValidationResult);
+				validationResult.mergeEvaluated(propertyValidationResult);
+			}
+		};
+
+		if (schema.dependencies && isDraftBefore(context, SchemaDraft.v2019_09)) {
 			Object.keys(schema.dependencies).forEach((key: string) => {
 				let prop = seenKeys[key];
 				if (prop) {
 					let propertyDep = schema.dependencies[key];
 					if (Array.isArray(propertyDep)) {
-						propertyDep.forEach((requiredProp: string) => {
-							if (!seenKeys[requiredProp]) {
-								validationResult.problems.push({
-									location: { start: this.start, end: this.end },
-									severity: ProblemSeverity.Warning,
-									message: localize('RequiredDependentPropWarning', 'Object is missing property {0} required by property {1}.', requiredProp, key)
-								});
-							} else {
-								validationResult.propertiesValueMatches++;
-							}
-						});
+						validateDependentRequired(key, propertyDep, 'dependencies');
 					} else {
-						let propertySchema = asSchema(propertyDep);
-						if (propertySchema) {
-							let propertyValidationResult = new ValidationResult();
-							this.validate(propertySchema, propertyValidationResult, matchingSchemas);
-							validationResult.mergePropertyMatch(propertyValidationResult);
-						}
+						validateDependentSchema(propertyDep);
 					}
 				}
 			});
 		}
 
+		if (schema.dependentRequired && isDraftAtLeast(context, SchemaDraft.v2019_09)) {
+			Object.keys(schema.dependentRequired).forEach((key: string) => {
+				let requiredProps = schema.dependentRequired[key];
+				if (seenKeys[key] && Array.isArray(requiredProps)) {
+					validateDependentRequired(key, requiredProps, 'dependentRequired');
+				}
+			});
+		}
+
+		if (schema.dependentSchemas && isDraftAtLeast(context, SchemaDraft.v2019_09)) {
+			Object.keys(schema.dependentSchemas).forEach((key: string) => {
+				if (seenKeys[key]) {
+					validateDependentSchema(schema.dependentSchemas[key]);
+				}
+			});
+		}
+
 		let propertyNames = asSchema(schema.propertyNames);
 		if (propertyNames) {
 			this.properties.forEach(f => {
 				let key = f.key;
 				if (key) {
-					key.validate(propertyNames, validationResult, NoOpSchemaCollector.instance);
+					key.validate(propertyNames, validationResult, NoOpSchemaCollector.instance, context);
+				}
+			});
+		}
+
+		if (schema.unevaluatedProperties !== void 0 && isDraftAtLeast(context, SchemaDraft.v2019_09)) {
+			Object.keys(seenKeys).forEach((propertyName: string) => {
+				let child = seenKeys[propertyName];
+				if (child && !validationResult.evaluatedProperties[propertyName]) {
+					if (schema.unevaluatedProperties === false) {
+						let propertyNode = <PropertyASTNode>child.parent;
+						validationResult.problems.push({
+							location: { start: propertyNode.key.start, end: propertyNode.key.end },
+							severity: ProblemSeverity.Warning,
+							code: ErrorCode.PropertyNotAllowed,
+							keyword: 'unevaluatedProperties',
+							schema,
+							message: schema.errorMessage || localize('DisallowedExtraPropWarning', 'Property {0} is not allowed.', propertyName),
+							data: { property: propertyName }
+						});
+					} else {
+						let propertyValidationResult = new ValidationResult();
+						child.validate(asSchema(schema.unevaluatedProperties), propertyValidationResult, matchingSchemas, context);
+						validationResult.mergePropertyMatch(propertyValidationResult);
+					}
+					validationResult.evaluatedProperties[propertyName] = true;
 				}
 			});
 		}
 	}
 }
 //region
+/**
+ * Returns the index of the alternative that the value of the object's discriminator property selects, or -1 if there is no
+ * discriminator or its value doesn't select exactly one alternative. The discriminator is the property named by `discriminator`
+ * or, if not set, the first property that all alternatives constrain to distinct values with `const` or `enum`.
+ */
+function selectAlternative(node: ASTNode, schema: JSONSchema, alternatives: JSONSchema[], matchingSchemas: ISchemaCollector): number {
+	if (node.type !== 'object') {
+		return -1;
+	}
+	let propertyName = schema.discriminator && typeof schema.discriminator.propertyName === 'string' ? schema.discriminator.propertyName : findDiscriminator(alternatives);
+	let property = propertyName && (<ObjectASTNode>node).getFirstProperty(propertyName);
+	if (!property || !property.value || matchingSchemas.excludes(property.value)) {
+		// no value yet, or the value is being completed: all alternatives are candidates
+		return -1;
+	}
+	let value = property.value.getValue();
+	let selected = -1;
+	for (let i = 0; i < alternatives.length; i++) {
+		let values = getDiscriminatorValues(alternatives[i], propertyName);
+		if (values && values.some(v => objects.equals(v, value))) {
+			if (selected !== -1) {
+				return -1;
+			}
+			selected = i;
+		}
+	}
+	return selected;
+}
+
+function findDiscriminator(alternatives: JSONSchema[]): string {
+	if (alternatives.length < 2) {
+		return null;
+	}
+	for (let propertyName of getPropertyNames(alternatives[0])) {
+		let seen: any[] = [];
+		let isDiscriminator = alternatives.every(alternative => {
+			let values = getDiscriminatorValues(alternative, propertyName);
+			if (!values || !values.length) {
+				return false;
+			}
+			for (let value of values) {
+				if ((value !== null && typeof value === 'object') || seen.some(v => v === value)) {
+					return false;
+				}
+				seen.push(value);
+			}
+			return true;
+		});
+		if (isDiscriminator) {
+			return propertyName;
+		}
+	}
+	return null;
+}
+
+function getPropertyNames(schema: JSONSchema): string[] {
+	let result = schema.properties ? Object.keys(schema.properties) : [];
+	if (Array.isArray(schema.allOf)) {
+		for (let subSchemaRef of schema.allOf) {
+			result = result.concat(getPropertyNames(asSchema(subSchemaRef)));
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns the values an alternative allows for a discriminator property, from the `const` or `enum` of the property in the
+ * alternative or in one of its `allOf` schemas. Returns null if the alternative doesn't restrict the property to values.
+ */
+function getDiscriminatorValues(schema: JSONSchema, propertyName: string): any[] {
+	let propertySchema = schema.properties && schema.properties[propertyName];
+	if (propertySchema && typeof propertySchema === 'object') {
+		if (typeof propertySchema.const !== 'undefined') {
+			return [propertySchema.const];
+		}
+		if (Array.isArray(propertySchema.enum)) {
+			return propertySchema.enum;
+		}
+	}
+	if (Array.isArray(schema.allOf)) {
+		for (let subSchemaRef of schema.allOf) {
+			let values = getDiscriminatorValues(asSchema(subSchemaRef), propertyName);
+			if (values) {
+				return values;
+			}
+		}
+	}
+	return null;
+}
+
 export function asSchema(schema: JSONSchemaRef) {
 	if (typeof schema === 'boolean') {
 		return schema ? {} : { "not": {} };
@@ -946,6 +1728,10 @@ export interface ISchemaCollector {
 	add(schema: IApplicableSchema): void;
 	merge(other: ISchemaCollector): void;
 	include(node: ASTNode): void;
+	/**
+	 * Returns true if the node is excluded from the collection, e.g. because it is the value being completed.
+	 */
+	excludes(node: ASTNode): boolean;
 	newSub(): ISchemaCollector;
 }
 
@@ -962,6 +1748,9 @@ class SchemaCollector implements ISchemaCollector {
 	include(node: ASTNode) {
 		return (this.focusOffset === -1 || node.contains(this.focusOffset)) && (node !== this.exclude);
 	}
+	excludes(node: ASTNode) {
+		return node === this.exclude;
+	}
 	newSub(): ISchemaCollector {
 		return new SchemaCollector(-1, this.exclude);
 	}
@@ -973,6 +1762,7 @@ class NoOpSchemaCollector implements ISchemaCollector {
 	add(schema: IApplicableSchema) { }
 	merge(other: ISchemaCollector) { }
 	include(node: ASTNode) { return true; }
+	excludes(node: ASTNode) { return false; }
 	newSub(): ISchemaCollector { return this; }
 
 	static instance = new NoOpSchemaCollector();
@@ -986,9 +1776,16 @@ export class ValidationResult {
 	public primaryValueMatches: number;
 	public enumValueMatch: boolean;
 	public enumValues: any[];
+	/**
+	 * The properties and items of the validated node that have been evaluated, used for `unevaluatedProperties` and `unevaluatedItems`.
+	 */
+	public evaluatedProperties: { [name: string]: boolean };
+	public evaluatedItems: { [index: number]: boolean };
 
 	constructor() {
 		this.problems = [];
+		this.evaluatedProperties = Object.create(null);
+		this.evaluatedItems = Object.create(null);
 		this.propertiesMatches = 0;
 		this.propertiesValueMatches = 0;
 		this.primaryValueMatches = 0;
@@ -1010,12 +1807,22 @@ export class ValidationResult {
 		this.problems = this.problems.concat(validationResult.problems);
 	}
 
+	public mergeEvaluated(validationResult: ValidationResult): void {
+		for (let name in validationResult.evaluatedProperties) {
+			this.evaluatedProperties[name] = true;
+		}
+		for (let index in validationResult.evaluatedItems) {
+			this.evaluatedItems[index] = true;
+		}
+	}
+
 	public mergeEnumValues(validationResult: ValidationResult): void {
 		if (!this.enumValueMatch && !validationResult.enumValueMatch && this.enumValues && validationResult.enumValues) {
 			this.enumValues = this.enumValues.concat(validationResult.enumValues);
 			for (let error of this.problems) {
 				if (error.code === ErrorCode.EnumValueMismatch) {
 					error.message = localize('enumWarning', 'Value is not accepted. Valid values: {0}.', this.enumValues.map(v => JSON.stringify(v)).join(', '));
+					error.data = { values: this.enumValues };
 				}
 			}
 		}
@@ -1051,44 +1858,244 @@ export class ValidationResult {
 
 }
 
+function getAlternativeLabel(explanation: AlternativeExplanation): string {
+	return explanation.title ? JSON.stringify(explanation.title) : localize('alternativeLabel', "alternative {0}", explanation.index + 1);
+}
+
+function getValidationContext(schema: JSONSchema, options?: ValidationOptions, token?: CancellationToken): ValidationContext {
+	let context: ValidationContext = { schemaDraft: getSchemaDraft(schema.$schema), token };
+	if (options) {
+		context.formatAssertion = options.formatAssertion;
+		context.formatValidators = options.formatValidators;
+		context.keywordValidators = options.keywordValidators;
+		context.explainAlternatives = options.explainAlternatives;
+	}
+	return context;
+}
+
 export class JSONDocument {
 
-	constructor(public readonly root: ASTNode, public readonly syntaxErrors: IProblem[] = [], public readonly comments: IRange[] = []) {
+	/**
+	 * @param text The text the document was parsed from. Needed to update the document with `parseIncremental`.
+	 */
+	constructor(public readonly root: TypedASTNode, public readonly syntaxErrors: IProblem[] = [], public readonly comments: IRange[] = [], public readonly text?: string) {
 	}
 
-	public getNodeFromOffset(offset: number): ASTNode {
+	public getNodeFromOffset(offset: number): TypedASTNode {
 		return this.root && this.root.getNodeFromOffset(offset);
 	}
 
-	public getNodeFromOffsetEndInclusive(offset: number): ASTNode {
+	public getNodeFromOffsetEndInclusive(offset: number): TypedASTNode {
 		return this.root && this.root.getNodeFromOffsetEndInclusive(offset);
 	}
 
-	public visit(visitor: (node: ASTNode) => boolean): void {
+	public visit(visitor: (node: TypedASTNode) => boolean): void {
 		if (this.root) {
 			this.root.visit(visitor);
 		}
 	}
 
-	public validate(schema: JSONSchema): IProblem[] {
+	/**
+	 * Validates the document against the schema. Returns no problems if the token is cancelled during the validation.
+	 */
+	public validate(schema: JSONSchema, options?: ValidationOptions, token?: CancellationToken): IProblem[] {
 		if (this.root && schema) {
 			let validationResult = new ValidationResult();
-			this.root.validate(schema, validationResult, NoOpSchemaCollector.instance);
-			return validationResult.problems;
+			this.root.validate(schema, validationResult, NoOpSchemaCollector.instance, getValidationContext(schema, options, token));
+			return token && token.isCancellationRequested ? [] : validationResult.problems;
 		}
 		return null;
 	}
 
-	public getMatchingSchemas(schema: JSONSchema, focusOffset: number = -1, exclude: ASTNode = null): IApplicableSchema[] {
+	/**
+	 * Returns the schemas that apply to the nodes of the document. Returns no schemas if the token is cancelled.
+	 */
+	public getMatchingSchemas(schema: JSONSchema, focusOffset: number = -1, exclude: ASTNode = null, token?: CancellationToken): IApplicableSchema[] {
 		let matchingSchemas = new SchemaCollector(focusOffset, exclude);
 		if (this.root && schema) {
-			this.root.validate(schema, new ValidationResult(), matchingSchemas);
+			this.root.validate(schema, new ValidationResult(), matchingSchemas, getValidationContext(schema, void 0, token));
+			if (token && token.isCancellationRequested) {
+				return [];
+			}
 		}
 		return matchingSchemas.schemas;
 	}
 }
 
 export function parse(textDocument: TextDocument, config?: JSONDocumentConfig): JSONDocument {
+	return parseDocument(textDocument, config, null);
+}
+
+/**
+ * Parses a document after the given changes, reusing the subtrees of the previous parse outside of the changed text. The result is the
+ * same as the one of `parse`. The reused nodes are moved to the new document: the previous document must not be used anymore.
+ * @param previous The document parsed from the text before the changes, with the same configuration.
+ * @param changes The changes from the text of the previous document to the text of `textDocument`, in the order they were applied.
+ */
+export function parseIncremental(textDocument: TextDocument, previous: JSONDocument, changes: TextDocumentContentChangeEvent[], config?: JSONDocumentConfig): JSONDocument {
+	let text = previous.text;
+	if (!previous.root || typeof text !== 'string' || !changes.length) {
+		return parse(textDocument, config);
+	}
+	// the changed range in the previous text, and by how much the text after it moved
+	let changeStart = -1, changeEnd = -1, delta = 0;
+	for (let i = 0; i < changes.length; i++) {
+		let change = changes[i];
+		if (!change.range) {
+			// the whole text was replaced
+			return parse(textDocument, config);
+		}
+		let start: number, end: number;
+		if (i === changes.length - 1) {
+			// the text before the last change is the same as in the new document
+			start = textDocument.offsetAt(change.range.start);
+			end = start + text.length - (textDocument.getText().length - change.text.length);
+		} else {
+			start = getOffset(text, change.range.start);
+			end = getOffset(text, change.range.end);
+			text = text.substring(0, start) + change.text + text.substring(end);
+		}
+		// start and end are offsets in the text after the previous changes
+		if (changeStart === -1) {
+			changeStart = start;
+			changeEnd = end;
+		} else {
+			if (end > changeEnd + delta) {
+				changeEnd = end - delta;
+			}
+			changeStart = Math.min(changeStart, start);
+		}
+		delta += change.text.length - (end - start);
+	}
+	return parseDocument(textDocument, config, new ReusableNodes(previous, changeStart, changeEnd, delta));
+}
+
+function getOffset(text: string, position: Position): number {
+	let offset = 0;
+	for (let line = 0; line < position.line && offset < text.length;) {
+		let ch = text.charCodeAt(offset++);
+		if (ch === 13 /* \r */) {
+			if (text.charCodeAt(offset) === 10 /* \n */) {
+				offset++;
+			}
+			line++;
+		} else if (ch === 10 /* \n */) {
+			line++;
+		}
+	}
+	return Math.min(offset + position.character, text.length);
+}
+
+/**
+ * The value nodes of a previous parse that are outside of the changed text and can be taken over by a new parse.
+ */
+class ReusableNodes {
+
+	// the nodes of the previous parse that contain the last looked up offset, with the index of the child to continue the search from.
+	// The parse looks up increasing offsets: a lookup continues where the last one ended.
+	private path: { node: TypedASTNode, index: number }[] = [];
+
+	constructor(private previous: JSONDocument, private changeStart: number, private changeEnd: number, private delta: number) {
+	}
+
+	/**
+	 * Returns the node of the previous parse for the value that starts at the given offset of the new text, moved to the given parent
+	 * and to the new text. Adds the comments inside the node to `comments`. Returns null if there's no such node or it has syntax errors.
+	 */
+	public take(offset: number, parent: TypedASTNode, location: Json.Segment, comments: IRange[]): TypedASTNode {
+		let isAfterChange = offset >= this.changeEnd + this.delta;
+		if (!isAfterChange && offset >= this.changeStart) {
+			return null;
+		}
+		let delta = isAfterChange ? this.delta : 0;
+		let node = this.find(offset - delta);
+		// a number or keyword directly before the changed text might continue in the new text
+		if (!node || !isAfterChange && node.end >= this.changeStart) {
+			return null;
+		}
+		if (this.previous.syntaxErrors.some(p => p.location.start <= node.end && p.location.end >= node.start)) {
+			return null;
+		}
+		if (comments) {
+			let previousComments = this.previous.comments;
+			for (let i = findFirstRange(previousComments, node.start); i < previousComments.length && previousComments[i].end <= node.end; i++) {
+				comments.push({ start: previousComments[i].start + delta, end: previousComments[i].end + delta });
+			}
+		}
+		// the node leaves the previous document: the lookups continue after it
+		if (this.path.length) {
+			this.path[this.path.length - 1].index++;
+		}
+		node.moveTo(parent, location, delta);
+		return node;
+	}
+
+	/**
+	 * Returns the value node of the previous parse that starts at the given offset of the previous text. Only visits the nodes on the
+	 * way to the offset, with a binary search over the children.
+	 */
+	private find(offset: number): TypedASTNode {
+		let path = this.path;
+		if (!path.length) {
+			let root = this.previous.root;
+			if (offset === root.start) {
+				return root;
+			}
+			if (!root.contains(offset)) {
+				return null;
+			}
+			path.push({ node: root, index: 0 });
+		}
+		while (path.length > 1 && offset >= path[path.length - 1].node.end) {
+			path.pop();
+		}
+		while (true) {
+			let top = path[path.length - 1];
+			let children = top.node.getChildNodes();
+			// the last child that starts at or before the offset
+			let low = top.index, high = children.length;
+			while (low < high) {
+				let mid = (low + high) >> 1;
+				if (children[mid].start <= offset) {
+					low = mid + 1;
+				} else {
+					high = mid;
+				}
+			}
+			if (low === top.index) {
+				return null;
+			}
+			top.index = low - 1;
+			let child = children[low - 1];
+			if (child.start === offset) {
+				// property keys are not values
+				return child.type === 'property' || child.type === 'string' && child.isKey ? null : child;
+			}
+			if (!child.contains(offset)) {
+				return null;
+			}
+			path.push({ node: child, index: 0 });
+		}
+	}
+}
+
+/**
+ * Returns the index of the first of the sorted ranges that starts at or after the offset.
+ */
+function findFirstRange(ranges: IRange[], offset: number): number {
+	let low = 0, high = ranges.length;
+	while (low < high) {
+		let mid = (low + high) >> 1;
+		if (ranges[mid].start < offset) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+	return low;
+}
+
+function parseDocument(textDocument: TextDocument, config: JSONDocumentConfig, reusableNodes: ReusableNodes): JSONDocument {
 
 	let problems: IProblem[] = [];
 	let text = textDocument.getText();
@@ -1194,7 +2201,7 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		return node;
 	}
 
-	function _parseArray(parent: ASTNode, name: Json.Segment): ArrayASTNode {
+	function _parseArray(parent: TypedASTNode, name: Json.Segment): ArrayASTNode {
 		if (scanner.getToken() !== Json.SyntaxKind.OpenBracketToken) {
 			return null;
 		}
@@ -1238,7 +2245,7 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		if (!key) {
 			if (scanner.getToken() === Json.SyntaxKind.Unknown) {
 				// give a more helpful error message
-				_error(localize('DoubleQuotesExpected', 'Property keys must be doublequoted'), ErrorCode.Undefined);
+				_error(localize('DoubleQuotesExpected', 'Property keys must be doublequoted'), ErrorCode.PropertyKeysMustBeDoublequoted);
 				key = new StringASTNode(null, null, true, scanner.getTokenOffset(), scanner.getTokenOffset() + scanner.getTokenLength());
 				key.value = scanner.getTokenValue();
 				_scanNext(); // consume Unknown
@@ -1250,9 +2257,9 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 
 		let seen = keysSeen[key.value];
 		if (seen) {
-			problems.push({ location: { start: node.key.start, end: node.key.end }, message: localize('DuplicateKeyWarning', "Duplicate object key"), code: ErrorCode.Undefined, severity: ProblemSeverity.Warning });
+			problems.push({ location: { start: node.key.start, end: node.key.end }, message: localize('DuplicateKeyWarning', "Duplicate object key"), code: ErrorCode.DuplicateKey, severity: ProblemSeverity.Warning });
 			if (seen instanceof PropertyASTNode) {
-				problems.push({ location: { start: seen.key.start, end: seen.key.end }, message: localize('DuplicateKeyWarning', "Duplicate object key"), code: ErrorCode.Undefined, severity: ProblemSeverity.Warning });
+				problems.push({ location: { start: seen.key.start, end: seen.key.end }, message: localize('DuplicateKeyWarning', "Duplicate object key"), code: ErrorCode.DuplicateKey, severity: ProblemSeverity.Warning });
 			}
 			keysSeen[key.value] = true; // if the same key is duplicate again, avoid duplicate error reporting
 		} else {
@@ -1277,7 +2284,7 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		return node;
 	}
 
-	function _parseObject(parent: ASTNode, name: Json.Segment): ObjectASTNode {
+	function _parseObject(parent: TypedASTNode, name: Json.Segment): ObjectASTNode {
 		if (scanner.getToken() !== Json.SyntaxKind.OpenBraceToken) {
 			return null;
 		}
@@ -1314,7 +2321,7 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		return _finalize(node, true);
 	}
 
-	function _parseString(parent: ASTNode, name: Json.Segment, isKey: boolean): StringASTNode {
+	function _parseString(parent: TypedASTNode, name: Json.Segment, isKey: boolean): StringASTNode {
 		if (scanner.getToken() !== Json.SyntaxKind.StringLiteral) {
 			return null;
 		}
@@ -1325,7 +2332,7 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		return _finalize(node, true);
 	}
 
-	function _parseNumber(parent: ASTNode, name: Json.Segment): NumberASTNode {
+	function _parseNumber(parent: TypedASTNode, name: Json.Segment): NumberASTNode {
 		if (scanner.getToken() !== Json.SyntaxKind.NumericLiteral) {
 			return null;
 		}
@@ -1347,8 +2354,8 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		return _finalize(node, true);
 	}
 
-	function _parseLiteral(parent: ASTNode, name: Json.Segment): ASTNode {
-		let node: ASTNode;
+	function _parseLiteral(parent: TypedASTNode, name: Json.Segment): TypedASTNode {
+		let node: TypedASTNode;
 		switch (scanner.getToken()) {
 			case Json.SyntaxKind.NullKeyword:
 				node = new NullASTNode(parent, name, scanner.getTokenOffset());
@@ -1365,7 +2372,14 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 		return _finalize(node, true);
 	}
 
-	function _parseValue(parent: ASTNode, name: Json.Segment): ASTNode {
+	function _parseValue(parent: TypedASTNode, name: Json.Segment): TypedASTNode {
+		let offset = scanner.getTokenOffset();
+		let reusedNode = reusableNodes && reusableNodes.take(offset, parent, name, comments);
+		if (reusedNode) {
+			scanner.setPosition(reusedNode.end);
+			_scanNext();
+			return reusedNode;
+		}
 		return _parseArray(parent, name) || _parseObject(parent, name) || _parseString(parent, name, false) || _parseNumber(parent, name) || _parseLiteral(parent, name);
 	}
 
@@ -1379,5 +2393,5 @@ export function parse(textDocument: TextDocument, config?: JSONDocumentConfig):
 			_error(localize('End of file expected', 'End of file expected.'), ErrorCode.Undefined);
 		}
 	}
-	return new JSONDocument(_root, problems, comments);
+	return new JSONDocument(_root, problems, comments, text);
 }
@@ -9,14 +9,16 @@ import {ISchemaContributions} from './jsonSchemaService';
 import * as nls from 'vscode-nls';
 const localize = nls.loadMessageBundle();
 
+const title = localize('schema.json', 'Describes a JSON file using a schema. See json-schema.org for more info.');
+
 export var schemaContributions: ISchemaContributions = {
 	schemaAssociations: {
 
 	},
 	schemas: {
-		// bundle the schema-schema to include (localized) descriptions
+		// bundle the schema-schemas to include (localized) descriptions
 		'http://json-schema.org/draft-04/schema#': {
-			'title': localize('schema.json', 'Describes a JSON file using a schema. See json-schema.org for more info.'),
+			'title': title,
 			'$schema': 'http://json-schema.org/draft-04/schema#',
 			'definitions': {
 				'schemaArray': {
@@ -46,142 +48,116 @@ export var schemaContributions: ISchemaContributions = {
 			'properties': {
 				'id': {
 					'type': 'string',
-					'format': 'uri',
-					'description': localize('schema.json.id', 'A unique identifier for the schema.')
+					'format': 'uri'
 				},
 				'$schema': {
 					'type': 'string',
-					'format': 'uri',
-					'description': localize('schema.json.$schema', 'The schema to verify this document against ')
+					'format': 'uri'
 				},
 				'title': {
-					'type': 'string',
-					'description': localize('schema.json.title', 'A descriptive title of the element')
+					'type': 'string'
 				},
 				'description': {
-					'type': 'string',
-					'description': localize('schema.json.description', 'A long description of the element. Used in hover menus and suggestions.')
-				},
-				'default': {
-					'description': localize('schema.json.default', 'A default value. Used by suggestions.')
+					'type': 'string'
 				},
+				'default': {},
 				'multipleOf': {
 					'type': 'number',
 					'minimum': 0,
-					'exclusiveMinimum': true,
-					'description': localize('schema.json.multipleOf', 'A number that should cleanly divide the current value (i.e. have no remainder)')
+					'exclusiveMinimum': true
 				},
 				'maximum': {
-					'type': 'number',
-					'description': localize('schema.json.maximum', 'The maximum numerical value, inclusive by default.')
+					'type': 'number'
 				},
 				'exclusiveMaximum': {
 					'type': 'boolean',
-					'default': false,
-					'description': localize('schema.json.exclusiveMaximum', 'Makes the maximum property exclusive.')
+					'default': false
 				},
 				'minimum': {
-					'type': 'number',
-					'description': localize('schema.json.minimum', 'The minimum numerical value, inclusive by default.')
+					'type': 'number'
 				},
 				'exclusiveMinimum': {
 					'type': 'boolean',
-					'default': false,
-					'description': localize('schema.json.exclusiveMininum', 'Makes the minimum property exclusive.')
+					'default': false
 				},
 				'maxLength': {
 					'allOf': [
 						{ '$ref': '#/definitions/positiveInteger' }
-					],
-					'description': localize('schema.json.maxLength', 'The maximum length of a string.')
+					]
 				},
 				'minLength': {
 					'allOf': [
 						{ '$ref': '#/definitions/positiveIntegerDefault0' }
-					],
-					'description': localize('schema.json.minLength', 'The minimum length of a string.')
+					]
 				},
 				'pattern': {
 					'type': 'string',
-					'format': 'regex',
-					'description': localize('schema.json.pattern', 'A regular expression to match the string against. It is not implicitly anchored.')
+					'format': 'regex'
 				},
 				'additionalItems': {
 					'anyOf': [
 						{ 'type': 'boolean' },
 						{ '$ref': '#' }
 					],
-					'default': {},
-					'description': localize('schema.json.additionalItems', 'For arrays, only when items is set as an array. If it is a schema, then this schema validates items after the ones specified by the items array. If it is false, then additional items will cause validation to fail.')
+					'default': {}
 				},
 				'items': {
 					'anyOf': [
 						{ '$ref': '#' },
 						{ '$ref': '#/definitions/schemaArray' }
 					],
-					'default': {},
-					'description': localize('schema.json.items', 'For arrays. Can either be a schema to validate every element against or an array of schemas to validate each item against in order (the first schema will validate the first element, the second schema will validate the second element, and so on.')
+					'default': {}
 				},
 				'maxItems': {
 					'allOf': [
 						{ '$ref': '#/definitions/positiveInteger' }
-					],
-					'description': localize('schema.json.maxItems', 'The maximum number of items that can be inside an array. Inclusive.')
+					]
 				},
 				'minItems': {
 					'allOf': [
 						{ '$ref': '#/definitions/positiveIntegerDefault0' }
-					],
-					'description': localize('schema.json.minItems', 'The minimum number of items that can be inside an array. Inclusive.')
+					]
 				},
 				'uniqueItems': {
 					'type': 'boolean',
-					'default': false,
-					'description': localize('schema.json.uniqueItems', 'If all of the items in the array must be unique. Defaults to false.')
+					'default': false
 				},
 				'maxProperties': {
 					'allOf': [
 						{ '$ref': '#/definitions/positiveInteger' }
-					],
-					'description': localize('schema.json.maxProperties', 'The maximum number of properties an object can have. Inclusive.')
+					]
 				},
 				'minProperties': {
 					'allOf': [
 						{ '$ref': '#/definitions/positiveIntegerDefault0' },
-					],
-					'description': localize('schema.json.minProperties', 'The minimum number of properties an object can have. Inclusive.')
+					]
 				},
 				'required': {
 					'allOf': [
 						{ '$ref': '#/definitions/stringArray' }
-					],
-					'description': localize('schema.json.required', 'An array of strings that lists the names of all properties required on this object.')
+					]
 				},
 				'additionalProperties': {
 					'anyOf': [
 						{ 'type': 'boolean' },
 						{ '$ref': '#' }
 					],
-					'default': {},
-					'description': localize('schema.json.additionalProperties', 'Either a schema or a boolean. If a schema, then used to validate all properties not matched by \'properties\' or \'patternProperties\'. If false, then any properties not matched by either will cause this schema to fail.')
+					'default': {}
 				},
 				'definitions': {
 					'type': 'object',
 					'additionalProperties': { '$ref': '#' },
-					'default': {},
-					'description': localize('schema.json.definitions', 'Not used for validation. Place subschemas here that you wish to reference inline with $ref')
+					'default': {}
 				},
 				'properties': {
 					'type': 'object',
 					'additionalProperties': { '$ref': '#' },
-					'default': {},
-					'description': localize('schema.json.properties', 'A map of property names to schemas for each property.')
+					'default': {}
 				},
 				'patternProperties': {
 					'type': 'object',
 					'additionalProperties': { '$ref': '#' },
-					'default': {},
-					'description': localize('schema.json.patternProperties', 'A map of regular expressions on property names to schemas for matching properties.')
+					'default': {}
 				},
 				'dependencies': {
 					'type': 'object',
@@ -190,14 +166,12 @@ export var schemaContributions: ISchemaContributions = {
 							{ '$ref': '#' },
 							{ '$ref': '#/definitions/stringArray' }
 						]
-					},
-					'description': localize('schema.json.dependencies', 'A map of property names to either an array of property names or a schema. An array of property names means the property named in the key depends on the properties in the array being present in the object in order to be valid. If the value is a schema, then the schema is only applied to the object if the property in the key exists on the object.')
+					}
 				},
 				'enum': {
 					'type': 'array',
 					'minItems': 1,
-					'uniqueItems': true,
-					'description': localize('schema.json.enum', 'The set of literal values that are valid')
+					'uniqueItems': true
 				},
 				'type': {
 					'anyOf': [
@@ -208,14 +182,12 @@ export var schemaContributions: ISchemaContributions = {
 							'minItems': 1,
 							'uniqueItems': true
 						}
-					],
-					'description': localize('schema.json.type', 'Either a string of one of the basic schema types (number, integer, null, array, object, boolean, string) or an array of strings specifying a subset of those types.')
+					]
 				},
 				'format': {
 					'anyOf': [
 						{
 							'type': 'string',
-							'description': localize('schema.json.format', 'Describes the format expected for the value.'),
 							'enum': ['date-time', 'uri', 'email', 'hostname', 'ipv4', 'ipv6', 'regex']
 						}, {
 							'type': 'string'
@@ -225,26 +197,22 @@ export var schemaContributions: ISchemaContributions = {
 				'allOf': {
 					'allOf': [
 						{ '$ref': '#/definitions/schemaArray' }
-					],
-					'description': localize('schema.json.allOf', 'An array of schemas, all of which must match.')
+					]
 				},
 				'anyOf': {
 					'allOf': [
 						{ '$ref': '#/definitions/schemaArray' }
-					],
-					'description': localize('schema.json.anyOf', 'An array of schemas, where at least one must match.')
+					]
 				},
 				'oneOf': {
 					'allOf': [
 						{ '$ref': '#/definitions/schemaArray' }
-					],
-					'description': localize('schema.json.oneOf', 'An array of schemas, exactly one of which must match.')
+					]
 				},
 				'not': {
 					'allOf': [
 						{ '$ref': '#' }
-					],
-					'description': localize('schema.json.not', 'A schema which must not match.')
+					]
 				}
 			},
 			'dependencies': {
@@ -252,6 +220,485 @@ export var schemaContributions: ISchemaContributions = {
 				'exclusiveMinimum': ['minimum']
 			},
 			'default': {}
+		},
+		'http://json-schema.org/draft-06/schema#': {
+			'title': title,
+			'$schema': 'http://json-schema.org/draft-06/schema#',
+			'definitions': {
+				'schemaArray': {
+					'type': 'array',
+					'minItems': 1,
+					'items': { '$ref': '#' }
+				},
+				'nonNegativeInteger': {
+					'type': 'integer',
+					'minimum': 0
+				},
+				'nonNegativeIntegerDefault0': {
+					'allOf': [{ '$ref': '#/definitions/nonNegativeInteger' }, { 'default': 0 }]
+				},
+				'simpleTypes': {
+					'enum': ['array', 'boolean', 'integer', 'null', 'number', 'object', 'string']
+				},
+				'stringArray': {
+					'type': 'array',
+					'items': { 'type': 'string' },
+					'uniqueItems': true,
+					'default': []
+				}
+			},
+			'type': ['object', 'boolean'],
+			'properties': {
+				'$id': { 'type': 'string', 'format': 'uri-reference' },
+				'$schema': { 'type': 'string', 'format': 'uri' },
+				'$ref': { 'type': 'string', 'format': 'uri-reference' },
+				'title': { 'type': 'string' },
+				'description': { 'type': 'string' },
+				'default': {},
+				'examples': { 'type': 'array', 'items': {} },
+				'multipleOf': { 'type': 'number', 'exclusiveMinimum': 0 },
+				'maximum': { 'type': 'number' },
+				'exclusiveMaximum': { 'type': 'number' },
+				'minimum': { 'type': 'number' },
+				'exclusiveMinimum': { 'type': 'number' },
+				'maxLength': { '$ref': '#/definitions/nonNegativeInteger' },
+				'minLength': { '$ref': '#/definitions/nonNegativeIntegerDefault0' },
+				'pattern': { 'type': 'string', 'format': 'regex' },
+				'additionalItems': { '$ref': '#' },
+				'items': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/definitions/schemaArray' }], 'default': {} },
+				'maxItems': { '$ref': '#/definitions/nonNegativeInteger' },
+				'minItems': { '$ref': '#/definitions/nonNegativeIntegerDefault0' },
+				'uniqueItems': { 'type': 'boolean', 'default': false },
+				'contains': { '$ref': '#' },
+				'maxProperties': { '$ref': '#/definitions/nonNegativeInteger' },
+				'minProperties': { '$ref': '#/definitions/nonNegativeIntegerDefault0' },
+				'required': { '$ref': '#/definitions/stringArray' },
+				'additionalProperties': { '$ref': '#' },
+				'definitions': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'properties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'patternProperties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'dependencies': { 'type': 'object', 'additionalProperties': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/definitions/stringArray' }] } },
+				'propertyNames': { '$ref': '#' },
+				'const': {},
+				'enum': { 'type': 'array', 'minItems': 1, 'uniqueItems': true },
+				'type': {
+					'anyOf': [
+						{ '$ref': '#/definitions/simpleTypes' },
+						{ 'type': 'array', 'items': { '$ref': '#/definitions/simpleTypes' }, 'minItems': 1, 'uniqueItems': true }
+					]
+				},
+				'format': {
+					'anyOf': [
+						{ 'type': 'string', 'enum': ['date-time', 'uri', 'uri-reference', 'uri-template', 'email', 'hostname', 'ipv4', 'ipv6', 'json-pointer', 'regex'] },
+						{ 'type': 'string' }
+					]
+				},
+				'allOf': { '$ref': '#/definitions/schemaArray' },
+				'anyOf': { '$ref': '#/definitions/schemaArray' },
+				'oneOf': { '$ref': '#/definitions/schemaArray' },
+				'not': { '$ref': '#' }
+			},
+			'default': {}
+		},
+		'http://json-schema.org/draft-07/schema#': {
+			'title': title,
+			'$schema': 'http://json-schema.org/draft-07/schema#',
+			'definitions': {
+				'schemaArray': {
+					'type': 'array',
+					'minItems': 1,
+					'items': { '$ref': '#' }
+				},
+				'nonNegativeInteger': {
+					'type': 'integer',
+					'minimum': 0
+				},
+				'nonNegativeIntegerDefault0': {
+					'allOf': [{ '$ref': '#/definitions/nonNegativeInteger' }, { 'default': 0 }]
+				},
+				'simpleTypes': {
+					'enum': ['array', 'boolean', 'integer', 'null', 'number', 'object', 'string']
+				},
+				'stringArray': {
+					'type': 'array',
+					'items': { 'type': 'string' },
+					'uniqueItems': true,
+					'default': []
+				}
+			},
+			'type': ['object', 'boolean'],
+			'properties': {
+				'$id': { 'type': 'string', 'format': 'uri-reference' },
+				'$schema': { 'type': 'string', 'format': 'uri' },
+				'$ref': { 'type': 'string', 'format': 'uri-reference' },
+				'$comment': { 'type': 'string' },
+				'title': { 'type': 'string' },
+				'description': { 'type': 'string' },
+				'default': {},
+				'readOnly': { 'type': 'boolean', 'default': false },
+				'writeOnly': { 'type': 'boolean', 'default': false },
+				'examples': { 'type': 'array', 'items': {} },
+				'multipleOf': { 'type': 'number', 'exclusiveMinimum': 0 },
+				'maximum': { 'type': 'number' },
+				'exclusiveMaximum': { 'type': 'number' },
+				'minimum': { 'type': 'number' },
+				'exclusiveMinimum': { 'type': 'number' },
+				'maxLength': { '$ref': '#/definitions/nonNegativeInteger' },
+				'minLength': { '$ref': '#/definitions/nonNegativeIntegerDefault0' },
+				'pattern': { 'type': 'string', 'format': 'regex' },
+				'additionalItems': { '$ref': '#' },
+				'items': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/definitions/schemaArray' }], 'default': {} },
+				'maxItems': { '$ref': '#/definitions/nonNegativeInteger' },
+				'minItems': { '$ref': '#/definitions/nonNegativeIntegerDefault0' },
+				'uniqueItems': { 'type': 'boolean', 'default': false },
+				'contains': { '$ref': '#' },
+				'maxProperties': { '$ref': '#/definitions/nonNegativeInteger' },
+				'minProperties': { '$ref': '#/definitions/nonNegativeIntegerDefault0' },
+				'required': { '$ref': '#/definitions/stringArray' },
+				'additionalProperties': { '$ref': '#' },
+				'definitions': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'properties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'patternProperties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'propertyNames': { 'format': 'regex' }, 'default': {} },
+				'dependencies': { 'type': 'object', 'additionalProperties': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/definitions/stringArray' }] } },
+				'propertyNames': { '$ref': '#' },
+				'const': {},
+				'enum': { 'type': 'array', 'items': {} },
+				'type': {
+					'anyOf': [
+						{ '$ref': '#/definitions/simpleTypes' },
+						{ 'type': 'array', 'items': { '$ref': '#/definitions/simpleTypes' }, 'minItems': 1, 'uniqueItems': true }
+					]
+				},
+				'format': {
+					'anyOf': [
+						{
+							'type': 'string', 'enum': ['date-time', 'date', 'time', 'email', 'idn-email', 'hostname', 'idn-hostname', 'ipv4', 'ipv6', 'uri', 'uri-reference',
+								'iri', 'iri-reference', 'uri-template', 'json-pointer', 'relative-json-pointer', 'regex']
+						},
+						{ 'type': 'string' }
+					]
+				},
+				'contentMediaType': { 'type': 'string' },
+				'contentEncoding': { 'type': 'string' },
+				'if': { '$ref': '#' },
+				'then': { '$ref': '#' },
+				'else': { '$ref': '#' },
+				'allOf': { '$ref': '#/definitions/schemaArray' },
+				'anyOf': { '$ref': '#/definitions/schemaArray' },
+				'oneOf': { '$ref': '#/definitions/schemaArray' },
+				'not': { '$ref': '#' }
+			},
+			'default': {}
+		},
+		// the 2019-09 and 2020-12 meta-schemas combine the vocabulary meta-schemas in a single schema
+		'https://json-schema.org/draft/2019-09/schema': {
+			'title': title,
+			'$schema': 'https://json-schema.org/draft/2019-09/schema',
+			'$defs': {
+				'schemaArray': {
+					'type': 'array',
+					'minItems': 1,
+					'items': { '$ref': '#' }
+				},
+				'nonNegativeInteger': {
+					'type': 'integer',
+					'minimum': 0
+				},
+				'nonNegativeIntegerDefault0': {
+					'$ref': '#/$defs/nonNegativeInteger',
+					'default': 0
+				},
+				'simpleTypes': {
+					'enum': ['array', 'boolean', 'integer', 'null', 'number', 'object', 'string']
+				},
+				'stringArray': {
+					'type': 'array',
+					'items': { 'type': 'string' },
+					'uniqueItems': true,
+					'default': []
+				},
+				'anchorString': {
+					'type': 'string',
+					'pattern': '^[A-Za-z][-A-Za-z0-9.:_]*$'
+				}
+			},
+			'type': ['object', 'boolean'],
+			'properties': {
+				'$id': { 'type': 'string', 'format': 'uri-reference' },
+				'$schema': { 'type': 'string', 'format': 'uri' },
+				'$anchor': { '$ref': '#/$defs/anchorString' },
+				'$ref': { 'type': 'string', 'format': 'uri-reference' },
+				'$recursiveRef': { 'type': 'string', 'format': 'uri-reference' },
+				'$recursiveAnchor': { 'type': 'boolean', 'default': false },
+				'$vocabulary': { 'type': 'object', 'propertyNames': { 'type': 'string', 'format': 'uri' }, 'additionalProperties': { 'type': 'boolean' } },
+				'$comment': { 'type': 'string' },
+				'$defs': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'title': { 'type': 'string' },
+				'description': { 'type': 'string' },
+				'default': {},
+				'deprecated': { 'type': 'boolean', 'default': false },
+				'readOnly': { 'type': 'boolean', 'default': false },
+				'writeOnly': { 'type': 'boolean', 'default': false },
+				'examples': { 'type': 'array', 'items': {} },
+				'multipleOf': { 'type': 'number', 'exclusiveMinimum': 0 },
+				'maximum': { 'type': 'number' },
+				'exclusiveMaximum': { 'type': 'number' },
+				'minimum': { 'type': 'number' },
+				'exclusiveMinimum': { 'type': 'number' },
+				'maxLength': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minLength': { '$ref': '#/$defs/nonNegativeIntegerDefault0' },
+				'pattern': { 'type': 'string', 'format': 'regex' },
+				'additionalItems': { '$ref': '#' },
+				'items': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/$defs/schemaArray' }] },
+				'unevaluatedItems': { '$ref': '#' },
+				'maxItems': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minItems': { '$ref': '#/$defs/nonNegativeIntegerDefault0' },
+				'uniqueItems': { 'type': 'boolean', 'default': false },
+				'contains': { '$ref': '#' },
+				'maxContains': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minContains': { '$ref': '#/$defs/nonNegativeInteger', 'default': 1 },
+				'maxProperties': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minProperties': { '$ref': '#/$defs/nonNegativeIntegerDefault0' },
+				'required': { '$ref': '#/$defs/stringArray' },
+				'additionalProperties': { '$ref': '#' },
+				'unevaluatedProperties': { '$ref': '#' },
+				'properties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'patternProperties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'propertyNames': { 'format': 'regex' }, 'default': {} },
+				'dependentRequired': { 'type': 'object', 'additionalProperties': { '$ref': '#/$defs/stringArray' } },
+				'dependentSchemas': { 'type': 'object', 'additionalProperties': { '$ref': '#' } },
+				'propertyNames': { '$ref': '#' },
+				'const': {},
+				'enum': { 'type': 'array', 'items': {} },
+				'type': {
+					'anyOf': [
+						{ '$ref': '#/$defs/simpleTypes' },
+						{ 'type': 'array', 'items': { '$ref': '#/$defs/simpleTypes' }, 'minItems': 1, 'uniqueItems': true }
+					]
+				},
+				'format': {
+					'anyOf': [
+						{
+							'type': 'string', 'enum': ['date-time', 'date', 'time', 'duration', 'email', 'idn-email', 'hostname', 'idn-hostname', 'ipv4', 'ipv6', 'uri', 'uri-reference',
+								'iri', 'iri-reference', 'uuid', 'uri-template', 'json-pointer', 'relative-json-pointer', 'regex']
+						},
+						{ 'type': 'string' }
+					]
+				},
+				'contentMediaType': { 'type': 'string' },
+				'contentEncoding': { 'type': 'string' },
+				'contentSchema': { '$ref': '#' },
+				'if': { '$ref': '#' },
+				'then': { '$ref': '#' },
+				'else': { '$ref': '#' },
+				'allOf': { '$ref': '#/$defs/schemaArray' },
+				'anyOf': { '$ref': '#/$defs/schemaArray' },
+				'oneOf': { '$ref': '#/$defs/schemaArray' },
+				'not': { '$ref': '#' },
+				// kept for compatibility, replaced by '$defs', 'dependentRequired' and 'dependentSchemas'
+				'definitions': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'dependencies': { 'type': 'object', 'additionalProperties': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/$defs/stringArray' }] } }
+			},
+			'default': {}
+		},
+		'https://json-schema.org/draft/2020-12/schema': {
+			'title': title,
+			'$schema': 'https://json-schema.org/draft/2020-12/schema',
+			'$defs': {
+				'schemaArray': {
+					'type': 'array',
+					'minItems': 1,
+					'items': { '$ref': '#' }
+				},
+				'nonNegativeInteger': {
+					'type': 'integer',
+					'minimum': 0
+				},
+				'nonNegativeIntegerDefault0': {
+					'$ref': '#/$defs/nonNegativeInteger',
+					'default': 0
+				},
+				'simpleTypes': {
+					'enum': ['array', 'boolean', 'integer', 'null', 'number', 'object', 'string']
+				},
+				'stringArray': {
+					'type': 'array',
+					'items': { 'type': 'string' },
+					'uniqueItems': true,
+					'default': []
+				},
+				'anchorString': {
+					'type': 'string',
+					'pattern': '^[A-Za-z_][-A-Za-z0-9._]*$'
+				}
+			},
+			'type': ['object', 'boolean'],
+			'properties': {
+				'$id': { 'type': 'string', 'format': 'uri-reference' },
+				'$schema': { 'type': 'string', 'format': 'uri' },
+				'$anchor': { '$ref': '#/$defs/anchorString' },
+				'$ref': { 'type': 'string', 'format': 'uri-reference' },
+				'$dynamicRef': { 'type': 'string', 'format': 'uri-reference' },
+				'$dynamicAnchor': { '$ref': '#/$defs/anchorString' },
+				'$vocabulary': { 'type': 'object', 'propertyNames': { 'type': 'string', 'format': 'uri' }, 'additionalProperties': { 'type': 'boolean' } },
+				'$comment': { 'type': 'string' },
+				'$defs': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'title': { 'type': 'string' },
+				'description': { 'type': 'string' },
+				'default': {},
+				'deprecated': { 'type': 'boolean', 'default': false },
+				'readOnly': { 'type': 'boolean', 'default': false },
+				'writeOnly': { 'type': 'boolean', 'default': false },
+				'examples': { 'type': 'array', 'items': {} },
+				'multipleOf': { 'type': 'number', 'exclusiveMinimum': 0 },
+				'maximum': { 'type': 'number' },
+				'exclusiveMaximum': { 'type': 'number' },
+				'minimum': { 'type': 'number' },
+				'exclusiveMinimum': { 'type': 'number' },
+				'maxLength': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minLength': { '$ref': '#/$defs/nonNegativeIntegerDefault0' },
+				'pattern': { 'type': 'string', 'format': 'regex' },
+				'prefixItems': { '$ref': '#/$defs/schemaArray' },
+				'items': { '$ref': '#' },
+				'unevaluatedItems': { '$ref': '#' },
+				'maxItems': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minItems': { '$ref': '#/$defs/nonNegativeIntegerDefault0' },
+				'uniqueItems': { 'type': 'boolean', 'default': false },
+				'contains': { '$ref': '#' },
+				'maxContains': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minContains': { '$ref': '#/$defs/nonNegativeInteger', 'default': 1 },
+				'maxProperties': { '$ref': '#/$defs/nonNegativeInteger' },
+				'minProperties': { '$ref': '#/$defs/nonNegativeIntegerDefault0' },
+				'required': { '$ref': '#/$defs/stringArray' },
+				'additionalProperties': { '$ref': '#' },
+				'unevaluatedProperties': { '$ref': '#' },
+				'properties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'patternProperties': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'propertyNames': { 'format': 'regex' }, 'default': {} },
+				'dependentRequired': { 'type': 'object', 'additionalProperties': { '$ref': '#/$defs/stringArray' } },
+				'dependentSchemas': { 'type': 'object', 'additionalProperties': { '$ref': '#' } },
+				'propertyNames': { '$ref': '#' },
+				'const': {},
+				'enum': { 'type': 'array', 'items': {} },
+				'type': {
+					'anyOf': [
+						{ '$ref': '#/$defs/simpleTypes' },
+						{ 'type': 'array', 'items': { '$ref': '#/$defs/simpleTypes' }, 'minItems': 1, 'uniqueItems': true }
+					]
+				},
+				'format': {
+					'anyOf': [
+						{
+							'type': 'string', 'enum': ['date-time', 'date', 'time', 'duration', 'email', 'idn-email', 'hostname', 'idn-hostname', 'ipv4', 'ipv6', 'uri', 'uri-reference',
+								'iri', 'iri-reference', 'uuid', 'uri-template', 'json-pointer', 'relative-json-pointer', 'regex']
+						},
+						{ 'type': 'string' }
+					]
+				},
+				'contentMediaType': { 'type': 'string' },
+				'contentEncoding': { 'type': 'string' },
+				'contentSchema': { '$ref': '#' },
+				'if': { '$ref': '#' },
+				'then': { '$ref': '#' },
+				'else': { '$ref': '#' },
+				'allOf': { '$ref': '#/$defs/schemaArray' },
+				'anyOf': { '$ref': '#/$defs/schemaArray' },
+				'oneOf': { '$ref': '#/$defs/schemaArray' },
+				'not': { '$ref': '#' },
+				// kept for compatibility, replaced by '$defs', 'dependentRequired' and 'dependentSchemas'
+				'definitions': { 'type': 'object', 'additionalProperties': { '$ref': '#' }, 'default': {} },
+				'dependencies': { 'type': 'object', 'additionalProperties': { 'anyOf': [{ '$ref': '#' }, { '$ref': '#/$defs/stringArray' }] } }
+			},
+			'default': {}
+		}
+	}
+};
+
+const descriptions: { [keyword: string]: string } = {
+	'$id': localize('schema.json.$id', 'A unique identifier for the schema. Relative references in the schema are resolved against it.'),
+	'$schema': localize('schema.json.$schema', 'The schema to verify this document against '),
+	'$ref': localize('schema.json.$ref', 'A reference to a schema that the value must also be valid against.'),
+	'$anchor': localize('schema.json.$anchor', 'A plain name that identifies the schema. A reference to \'#name\' points to the schema with that anchor.'),
+	'$dynamicRef': localize('schema.json.$dynamicRef', 'A reference that resolves to the outermost schema in the dynamic scope with a matching $dynamicAnchor. Used to extend recursive schemas.'),
+	'$dynamicAnchor': localize('schema.json.$dynamicAnchor', 'A plain name that identifies the schema for $dynamicRef.'),
+	'$recursiveRef': localize('schema.json.$recursiveRef', 'A reference that resolves to the outermost schema in the dynamic scope with "$recursiveAnchor": true. Used to extend recursive schemas.'),
+	'$recursiveAnchor': localize('schema.json.$recursiveAnchor', 'If true, a $recursiveRef to this schema resolves to the outermost schema in the dynamic scope that also has "$recursiveAnchor": true.'),
+	'$vocabulary': localize('schema.json.$vocabulary', 'The vocabularies used by schemas of this meta-schema, and whether an implementation must understand them.'),
+	'$comment': localize('schema.json.$comment', 'Comments for schema maintainers. Not used for validation or shown to users.'),
+	'$defs': localize('schema.json.$defs', 'Not used for validation. Place subschemas here that you wish to reference inline with $ref'),
+	'title': localize('schema.json.title', 'A descriptive title of the element'),
+	'description': localize('schema.json.description', 'A long description of the element. Used in hover menus and suggestions.'),
+	'default': localize('schema.json.default', 'A default value. Used by suggestions.'),
+	'deprecated': localize('schema.json.deprecated', 'If true, the value should not be used and may be removed in the future.'),
+	'readOnly': localize('schema.json.readOnly', 'If true, the value is managed by its owner and attempts to modify it are ignored or rejected.'),
+	'writeOnly': localize('schema.json.writeOnly', 'If true, the value is never returned by its owner, for example a password.'),
+	'examples': localize('schema.json.examples', 'Sample values that are valid against the schema.'),
+	'multipleOf': localize('schema.json.multipleOf', 'A number that should cleanly divide the current value (i.e. have no remainder)'),
+	'maximum': localize('schema.json.maximum.inclusive', 'The maximum numerical value, inclusive.'),
+	'exclusiveMaximum': localize('schema.json.exclusiveMaximum.value', 'The maximum numerical value, exclusive.'),
+	'minimum': localize('schema.json.minimum.inclusive', 'The minimum numerical value, inclusive.'),
+	'exclusiveMinimum': localize('schema.json.exclusiveMinimum.value', 'The minimum numerical value, exclusive.'),
+	'maxLength': localize('schema.json.maxLength', 'The maximum length of a string.'),
+	'minLength': localize('schema.json.minLength', 'The minimum length of a string.'),
+	'pattern': localize('schema.json.pattern', 'A regular expression to match the string against. It is not implicitly anchored.'),
+	'additionalItems': localize('schema.json.additionalItems', 'For arrays, only when items is set as an array. If it is a schema, then this schema validates items after the ones specified by the items array. If it is false, then additional items will cause validation to fail.'),
+	'items': localize('schema.json.items', 'For arrays. Can either be a schema to validate every element against or an array of schemas to validate each item against in order (the first schema will validate the first element, the second schema will validate the second element, and so on.'),
+	'prefixItems': localize('schema.json.prefixItems', 'For arrays. An array of schemas to validate each item against in order (the first schema will validate the first element, the second schema will validate the second element, and so on). The remaining items are validated by \'items\'.'),
+	'unevaluatedItems': localize('schema.json.unevaluatedItems', 'For arrays. A schema that validates the items that are not evaluated by any other keyword, including the keywords of the subschemas the array is valid against.'),
+	'maxItems': localize('schema.json.maxItems', 'The maximum number of items that can be inside an array. Inclusive.'),
+	'minItems': localize('schema.json.minItems', 'The minimum number of items that can be inside an array. Inclusive.'),
+	'uniqueItems': localize('schema.json.uniqueItems', 'If all of the items in the array must be unique. Defaults to false.'),
+	'contains': localize('schema.json.contains', 'For arrays. A schema that at least one item of the array must be valid against.'),
+	'maxContains': localize('schema.json.maxContains', 'The maximum number of items that can be valid against \'contains\'. Inclusive.'),
+	'minContains': localize('schema.json.minContains', 'The minimum number of items that must be valid against \'contains\'. Inclusive. Defaults to 1.'),
+	'maxProperties': localize('schema.json.maxProperties', 'The maximum number of properties an object can have. Inclusive.'),
+	'minProperties': localize('schema.json.minProperties', 'The minimum number of properties an object can have. Inclusive.'),
+	'required': localize('schema.json.required', 'An array of strings that lists the names of all properties required on this object.'),
+	'additionalProperties': localize('schema.json.additionalProperties', 'Either a schema or a boolean. If a schema, then used to validate all properties not matched by \'properties\' or \'patternProperties\'. If false, then any properties not matched by either will cause this schema to fail.'),
+	'unevaluatedProperties': localize('schema.json.unevaluatedProperties', 'For objects. A schema that validates the properties that are not evaluated by any other keyword, including the keywords of the subschemas the object is valid against.'),
+	'definitions': localize('schema.json.definitions', 'Not used for validation. Place subschemas here that you wish to reference inline with $ref'),
+	'properties': localize('schema.json.properties', 'A map of property names to schemas for each property.'),
+	'patternProperties': localize('schema.json.patternProperties', 'A map of regular expressions on property names to schemas for matching properties.'),
+	'dependencies': localize('schema.json.dependencies', 'A map of property names to either an array of property names or a schema. An array of property names means the property named in the key depends on the properties in the array being present in the object in order to be valid. If the value is a schema, then the schema is only applied to the object if the property in the key exists on the object.'),
+	'dependentRequired': localize('schema.json.dependentRequired', 'A map of property names to an array of property names. If the property in the key exists on the object, the properties in the array must be present as well.'),
+	'dependentSchemas': localize('schema.json.dependentSchemas', 'A map of property names to schemas. If the property in the key exists on the object, the object must also be valid against the schema.'),
+	'propertyNames': localize('schema.json.propertyNames', 'A schema that the names of all properties of an object must be valid against.'),
+	'const': localize('schema.json.const', 'The only value that is valid.'),
+	'enum': localize('schema.json.enum', 'The set of literal values that are valid'),
+	'type': localize('schema.json.type', 'Either a string of one of the basic schema types (number, integer, null, array, object, boolean, string) or an array of strings specifying a subset of those types.'),
+	'format': localize('schema.json.format', 'Describes the format expected for the value.'),
+	'contentMediaType': localize('schema.json.contentMediaType', 'The media type of the contents of a string, for example \'application/json\'.'),
+	'contentEncoding': localize('schema.json.contentEncoding', 'The encoding used to store binary contents in a string, for example \'base64\'.'),
+	'contentSchema': localize('schema.json.contentSchema', 'A schema for the contents of a string, after decoding them with \'contentEncoding\' and parsing them as \'contentMediaType\'.'),
+	'if': localize('schema.json.if', 'If the value is valid against this schema, it must also be valid against \'then\'. Otherwise, it must be valid against \'else\'.'),
+	'then': localize('schema.json.then', 'The schema the value must be valid against if it is valid against \'if\'.'),
+	'else': localize('schema.json.else', 'The schema the value must be valid against if it is not valid against \'if\'.'),
+	'allOf': localize('schema.json.allOf', 'An array of schemas, all of which must match.'),
+	'anyOf': localize('schema.json.anyOf', 'An array of schemas, where at least one must match.'),
+	'oneOf': localize('schema.json.oneOf', 'An array of schemas, exactly one of which must match.'),
+	'not': localize('schema.json.not', 'A schema which must not match.')
+};
+
+// descriptions of keywords whose meaning differs in a draft
+const draftDescriptions: { [schemaId: string]: { [keyword: string]: string } } = {
+	'http://json-schema.org/draft-04/schema#': {
+		'id': localize('schema.json.id', 'A unique identifier for the schema.'),
+		'maximum': localize('schema.json.maximum', 'The maximum numerical value, inclusive by default.'),
+		'exclusiveMaximum': localize('schema.json.exclusiveMaximum', 'Makes the maximum property exclusive.'),
+		'minimum': localize('schema.json.minimum', 'The minimum numerical value, inclusive by default.'),
+		'exclusiveMinimum': localize('schema.json.exclusiveMininum', 'Makes the minimum property exclusive.')
+	},
+	'https://json-schema.org/draft/2020-12/schema': {
+		'items': localize('schema.json.items.2020-12', 'For arrays. A schema to validate the items against that are not validated by \'prefixItems\'.')
+	}
+};
+
+for (let schemaId in schemaContributions.schemas) {
+	let schema = schemaContributions.schemas[schemaId];
+	let overrides = draftDescriptions[schemaId] || {};
+	for (let keyword in schema.properties) {
+		let propertySchema = schema.properties[keyword];
+		let description = overrides[keyword] || descriptions[keyword];
+		if (description && typeof propertySchema === 'object') {
+			propertySchema.description = description;
 		}
 	}
-};
\ No newline at end of file
+}
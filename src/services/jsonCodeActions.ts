@@ -0,0 +1,193 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { IJSONSchemaService, ResolvedSchema } from './jsonSchemaService';
+import { JSONSchema } from '../jsonSchema';
+import { PromiseConstructor, Thenable, CodeAction, CodeActionKind, DiagnosticData } from '../jsonLanguageService';
+import { getEditDistance } from '../utils/strings';
+
+import { TextDocument, Range, Diagnostic, TextEdit, WorkspaceEdit } from 'vscode-languageserver-types';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export class JSONCodeActions {
+
+	private schemaService: IJSONSchemaService;
+	private promise: PromiseConstructor;
+
+	constructor(schemaService: IJSONSchemaService, promiseConstructor?: PromiseConstructor) {
+		this.schemaService = schemaService;
+		this.promise = promiseConstructor || Promise;
+	}
+
+	public getCodeActions(document: TextDocument, range: Range, diagnostics: Diagnostic[], doc: Parser.JSONDocument): Thenable<CodeAction[]> {
+		let start = document.offsetAt(range.start), end = document.offsetAt(range.end);
+		diagnostics = diagnostics.filter(d => typeof d.code === 'number' && document.offsetAt(d.range.start) <= end && document.offsetAt(d.range.end) >= start);
+		if (!diagnostics.length) {
+			return this.promise.resolve([]);
+		}
+		return this.schemaService.getSchemaForResource(document.uri, doc).then(schema => {
+			let result: CodeAction[] = [];
+			for (let diagnostic of diagnostics) {
+				let action = this.getCodeAction(document, doc, schema, diagnostic);
+				if (action) {
+					action.diagnostics = [diagnostic];
+					result.push(action);
+				}
+			}
+			return result;
+		});
+	}
+
+	/**
+	 * Computes the fix of a diagnostic from its code, its data and the node at its range.
+	 */
+	private getCodeAction(document: TextDocument, doc: Parser.JSONDocument, schema: ResolvedSchema, diagnostic: Diagnostic & { data?: DiagnosticData }): CodeAction {
+		let createAction = (title: string, edits: TextEdit[]): CodeAction => {
+			let changes: { [uri: string]: TextEdit[] } = {};
+			changes[document.uri] = edits;
+			let edit: WorkspaceEdit = { changes };
+			return { title, kind: CodeActionKind.QuickFix, edit };
+		};
+		let location: Parser.IRange = { start: document.offsetAt(diagnostic.range.start), end: document.offsetAt(diagnostic.range.end) };
+		let node = doc.getNodeFromOffset(location.start);
+		let data = diagnostic.data || {};
+		switch (diagnostic.code) {
+			case Parser.ErrorCode.MissingRequiredProperty: {
+				// the problem is reported on the key of the object's property or on its opening brace
+				let objectNode = node && node.type === 'string' && node.parent && node.parent.type === 'property' ? (<Parser.PropertyASTNode>node.parent).value : node;
+				if (objectNode && objectNode.type === 'object' && typeof data.property === 'string') {
+					let value = getDefaultValue(getPropertySchemas(doc, schema, objectNode, data.property));
+					let edit = getInsertPropertyEdit(document, <Parser.ObjectASTNode>objectNode, data.property, value);
+					return createAction(localize('codeAction.addProperty', 'Add missing property "{0}"', data.property), [edit]);
+				}
+				break;
+			}
+			case Parser.ErrorCode.PropertyNotAllowed:
+			case Parser.ErrorCode.DuplicateKey: {
+				if (node && node.type === 'string' && node.parent && node.parent.type === 'property') {
+					let property = <Parser.PropertyASTNode>node.parent;
+					let title = diagnostic.code === Parser.ErrorCode.DuplicateKey ?
+						localize('codeAction.removeDuplicate', 'Remove duplicate property "{0}"', property.key.value) :
+						localize('codeAction.removeProperty', 'Remove property "{0}"', property.key.value);
+					return createAction(title, [TextEdit.del(getRemovePropertyRange(document, property))]);
+				}
+				break;
+			}
+			case Parser.ErrorCode.EnumValueMismatch: {
+				if (node && Array.isArray(data.values) && data.values.length) {
+					let value = findClosestValue(node.getValue(), data.values);
+					let newText = JSON.stringify(value);
+					return createAction(localize('codeAction.replaceValue', 'Replace with {0}', newText), [TextEdit.replace(getRange(document, node), newText)]);
+				}
+				break;
+			}
+			case Parser.ErrorCode.TrailingComma:
+				return createAction(localize('codeAction.removeTrailingComma', 'Remove trailing comma'), [TextEdit.del(getRange(document, location))]);
+			case Parser.ErrorCode.PropertyKeysMustBeDoublequoted: {
+				let key = document.getText().substring(location.start, location.end);
+				let match = key.match(/^'(.*)'$/);
+				let newText = JSON.stringify(match ? match[1] : key);
+				return createAction(localize('codeAction.doubleQuoteKey', 'Replace with {0}', newText), [TextEdit.replace(getRange(document, location), newText)]);
+			}
+		}
+		return null;
+	}
+}
+
+function getRange(document: TextDocument, location: Parser.IRange): Range {
+	return Range.create(document.positionAt(location.start), document.positionAt(location.end));
+}
+
+function getPropertySchemas(doc: Parser.JSONDocument, schema: ResolvedSchema, objectNode: Parser.ASTNode, property: string): JSONSchema[] {
+	let result: JSONSchema[] = [];
+	if (schema) {
+		doc.getMatchingSchemas(schema.schema, objectNode.start).forEach(s => {
+			if (s.node === objectNode && !s.inverted && s.schema.properties) {
+				let propertySchema = s.schema.properties[property];
+				if (propertySchema && typeof propertySchema === 'object') {
+					result.push(propertySchema);
+				}
+			}
+		});
+	}
+	return result;
+}
+
+function getDefaultValue(schemas: JSONSchema[]): any {
+	for (let schema of schemas) {
+		if (typeof schema.default !== 'undefined') {
+			return schema.default;
+		}
+		if (typeof schema.const !== 'undefined') {
+			return schema.const;
+		}
+		if (Array.isArray(schema.enum) && schema.enum.length) {
+			return schema.enum[0];
+		}
+	}
+	for (let schema of schemas) {
+		let type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+		switch (type) {
+			case 'string': return '';
+			case 'number':
+			case 'integer': return 0;
+			case 'boolean': return false;
+			case 'object': return {};
+			case 'array': return [];
+			case 'null': return null;
+		}
+	}
+	return null;
+}
+
+function getLineIndent(document: TextDocument, offset: number): string {
+	let line = document.positionAt(offset).line;
+	let lineText = document.getText().substring(document.offsetAt({ line, character: 0 }), offset);
+	return lineText.match(/^\s*/)[0];
+}
+
+function getInsertPropertyEdit(document: TextDocument, objectNode: Parser.ObjectASTNode, property: string, value: any): TextEdit {
+	let propertyText = JSON.stringify(property) + ': ' + JSON.stringify(value);
+	let lastProperty = objectNode.properties[objectNode.properties.length - 1];
+	if (!lastProperty) {
+		return TextEdit.insert(document.positionAt(objectNode.start + 1), propertyText);
+	}
+	let multiLine = document.positionAt(lastProperty.start).line !== document.positionAt(objectNode.start).line;
+	let separator = multiLine ? '\n' + getLineIndent(document, lastProperty.start) : ' ';
+	return TextEdit.insert(document.positionAt(lastProperty.end), ',' + separator + propertyText);
+}
+
+function getRemovePropertyRange(document: TextDocument, property: Parser.PropertyASTNode): Range {
+	let properties = (<Parser.ObjectASTNode>property.parent).properties;
+	let index = properties.indexOf(property);
+	if (index < properties.length - 1) {
+		// remove up to the next property, including the comma
+		return getRange(document, { start: property.start, end: properties[index + 1].start });
+	}
+	if (index > 0) {
+		// last property: remove the comma after the previous property
+		return getRange(document, { start: properties[index - 1].end, end: property.end });
+	}
+	return getRange(document, property);
+}
+
+function findClosestValue(value: any, candidates: any[]): any {
+	let best = candidates[0];
+	let bestDistance = Number.MAX_VALUE;
+	for (let candidate of candidates) {
+		let distance = typeof value === 'number' && typeof candidate === 'number' ?
+			Math.abs(value - candidate) :
+			getEditDistance(typeof value === 'string' ? value : JSON.stringify(value), typeof candidate === 'string' ? candidate : JSON.stringify(candidate));
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
@@ -10,7 +10,7 @@ import * as Json from 'jsonc-parser';
 import * as SchemaService from './jsonSchemaService';
 import { JSONSchema, JSONSchemaRef } from '../jsonSchema';
 import { JSONWorkerContribution, CompletionsCollector } from '../jsonContributions';
-import { PromiseConstructor, Thenable } from '../jsonLanguageService';
+import { PromiseConstructor, Thenable, CancellationToken } from '../jsonLanguageService';
 import { stringifyObject } from '../utils/json';
 import { endsWith } from '../utils/strings';
 
@@ -44,7 +44,10 @@ export class JSONCompletion {
 		return this.promise.resolve(item);
 	}
 
-	public doComplete(document: TextDocument, position: Position, doc: Parser.JSONDocument): Thenable<CompletionList> {
+	public doComplete(document: TextDocument, position: Position, doc: Parser.JSONDocument, token?: CancellationToken): Thenable<CompletionList> {
+		if (token && token.isCancellationRequested) {
+			return this.promise.resolve(null);
+		}
 
 		let result: CompletionList = {
 			items: [],
@@ -99,7 +102,10 @@ export class JSONCompletion {
 			}
 		};
 
-		return this.schemaService.getSchemaForResource(document.uri, doc).then((schema) => {
+		return this.schemaService.getSchemaForResource(document.uri, doc, token).then((schema) => {
+			if (token && token.isCancellationRequested) {
+				return null;
+			}
 			let collectionPromises: Thenable<any>[] = [];
 
 			let addValue = true;
@@ -141,7 +147,7 @@ export class JSONCompletion {
 
 				if (schema) {
 					// property proposals with schema
-					this.getPropertyCompletions(schema, doc, node, addValue, separatorAfter, collector);
+					this.getPropertyCompletions(schema, doc, node, addValue, separatorAfter, collector, token);
 				} else {
 					// property proposals without schema
 					this.getSchemaLessPropertyCompletions(doc, node, currentKey, collector);
@@ -168,7 +174,7 @@ export class JSONCompletion {
 			let types: { [type: string]: boolean } = {};
 			if (schema) {
 				// value proposals with schema
-				this.getValueCompletions(schema, doc, node, offset, document, collector, types);
+				this.getValueCompletions(schema, doc, node, offset, document, collector, types, token);
 			} else {
 				// value proposals without schema
 				this.getSchemaLessValueCompletions(doc, node, offset, document, collector);
@@ -178,6 +184,9 @@ export class JSONCompletion {
 			}
 
 			return this.promise.all(collectionPromises).then(() => {
+				if (token && token.isCancellationRequested) {
+					return null;
+				}
 				if (collector.getNumberOfProposals() === 0) {
 					let offsetForSeparator = offset;
 					if (node && (node.type === 'string' || node.type === 'number' || node.type === 'boolean' || node.type === 'null')) {
@@ -191,8 +200,8 @@ export class JSONCompletion {
 		});
 	}
 
-	private getPropertyCompletions(schema: SchemaService.ResolvedSchema, doc: Parser.JSONDocument, node: Parser.ASTNode, addValue: boolean, separatorAfter: string, collector: CompletionsCollector): void {
-		let matchingSchemas = doc.getMatchingSchemas(schema.schema, node.start);
+	private getPropertyCompletions(schema: SchemaService.ResolvedSchema, doc: Parser.JSONDocument, node: Parser.ASTNode, addValue: boolean, separatorAfter: string, collector: CompletionsCollector, token: CancellationToken): void {
+		let matchingSchemas = doc.getMatchingSchemas(schema.schema, node.start, null, token);
 		matchingSchemas.forEach((s) => {
 			if (s.node === node && !s.inverted) {
 				let schemaProperties = s.schema.properties;
@@ -351,7 +360,7 @@ export class JSONCompletion {
 	}
 
 
-	private getValueCompletions(schema: SchemaService.ResolvedSchema, doc: Parser.JSONDocument, node: Parser.ASTNode, offset: number, document: TextDocument, collector: CompletionsCollector, types: { [type: string]: boolean }): void {
+	private getValueCompletions(schema: SchemaService.ResolvedSchema, doc: Parser.JSONDocument, node: Parser.ASTNode, offset: number, document: TextDocument, collector: CompletionsCollector, types: { [type: string]: boolean }, token: CancellationToken): void {
 		let offsetForSeparator = offset;
 		let parentKey: string = null;
 		let valueNode: Parser.ASTNode = null;
@@ -380,10 +389,17 @@ export class JSONCompletion {
 		if (node && (parentKey !== null || node.type === 'array')) {
 			let separatorAfter = this.evaluateSeparatorAfter(document, offsetForSeparator);
 
-			let matchingSchemas = doc.getMatchingSchemas(schema.schema, node.start, valueNode);
+			let matchingSchemas = doc.getMatchingSchemas(schema.schema, node.start, valueNode, token);
 			matchingSchemas.forEach(s => {
 				if (s.node === node && !s.inverted && s.schema) {
-					if (s.schema.items) {
+					if (Array.isArray(s.schema.prefixItems)) {
+						let index = this.findItemAtOffset(node, document, offset);
+						if (index < s.schema.prefixItems.length) {
+							this.addSchemaValueCompletions(s.schema.prefixItems[index], separatorAfter, collector, types);
+						} else if (s.schema.items && !Array.isArray(s.schema.items)) {
+							this.addSchemaValueCompletions(s.schema.items, separatorAfter, collector, types);
+						}
+					} else if (s.schema.items) {
 						if (Array.isArray(s.schema.items)) {
 							let index = this.findItemAtOffset(node, document, offset);
 							if (index < s.schema.items.length) {
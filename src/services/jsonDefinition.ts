@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { JSONSchemaService } from './jsonSchemaService';
+import { PromiseConstructor, Thenable, WorkspaceContextService } from '../jsonLanguageService';
+import { parseJSONPointer } from '../utils/jsonPointer';
+
+import { TextDocument, Position, Location, Range } from 'vscode-languageserver-types';
+
+export class JSONDefinition {
+
+	private schemaService: JSONSchemaService;
+	private contextService: WorkspaceContextService;
+	private promise: PromiseConstructor;
+
+	constructor(schemaService: JSONSchemaService, contextService: WorkspaceContextService, promiseConstructor: PromiseConstructor) {
+		this.schemaService = schemaService;
+		this.contextService = contextService;
+		this.promise = promiseConstructor || Promise;
+	}
+
+	public findDefinition(document: TextDocument, position: Position, doc: Parser.JSONDocument): Thenable<Location[]> {
+		let offset = document.offsetAt(position);
+		let node = doc.getNodeFromOffset(offset);
+		if (!isRefValue(node)) {
+			return this.promise.resolve([]);
+		}
+		let ref = <string>node.getValue();
+		let hashIndex = ref.indexOf('#');
+		let uri = hashIndex === -1 ? ref : ref.substr(0, hashIndex);
+		let path = parseJSONPointer(hashIndex === -1 ? '' : ref.substr(hashIndex + 1), true);
+		if (!path) {
+			return this.promise.resolve([]);
+		}
+
+		if (!uri) {
+			let target = findNodeAtPath(doc.root, path);
+			if (target) {
+				return this.promise.resolve([Location.create(document.uri, getRange(document, target))]);
+			}
+			return this.promise.resolve([]);
+		}
+
+		if (this.contextService && !/^\w+:\/\/.*/.test(uri)) {
+			uri = this.contextService.resolveRelativePath(uri, document.uri);
+		}
+		return this.schemaService.getUnresolvedSchema(uri).then(unresolvedSchema => {
+			let range = Range.create(0, 0, 0, 0);
+			if (unresolvedSchema && typeof unresolvedSchema.content === 'string') {
+				let targetDocument = TextDocument.create(uri, 'json', 0, unresolvedSchema.content);
+				let target = findNodeAtPath(Parser.parse(targetDocument).root, path);
+				if (target) {
+					range = getRange(targetDocument, target);
+				}
+			}
+			return [Location.create(uri, range)];
+		});
+	}
+}
+
+export function isRefValue(node: Parser.ASTNode): boolean {
+	if (node && node.type === 'string' && node.parent && node.parent.type === 'property') {
+		let property = <Parser.PropertyASTNode>node.parent;
+		return property.value === node && property.key.value === '$ref';
+	}
+	return false;
+}
+
+export function findNodeAtPath(node: Parser.TypedASTNode, path: string[]): Parser.TypedASTNode {
+	for (let segment of path) {
+		if (!node) {
+			return null;
+		}
+		if (node.type === 'object') {
+			let property = (<Parser.ObjectASTNode>node).getFirstProperty(segment);
+			node = property && property.value;
+		} else if (node.type === 'array' && /^(0|[1-9][0-9]*)$/.test(segment)) {
+			node = (<Parser.ArrayASTNode>node).items[parseInt(segment, 10)];
+		} else {
+			return null;
+		}
+	}
+	return node;
+}
+
+function getRange(document: TextDocument, node: Parser.ASTNode): Range {
+	return Range.create(document.positionAt(node.start), document.positionAt(node.end));
+}
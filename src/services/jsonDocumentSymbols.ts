@@ -9,12 +9,15 @@ import * as Strings from '../utils/strings';
 import { colorFromHex } from '../utils/colors';
 
 import { SymbolInformation, SymbolKind, TextDocument, Range, Location, TextEdit } from 'vscode-languageserver-types';
-import { Thenable, ColorInformation, ColorPresentation, Color } from "../jsonLanguageService";
-import { IJSONSchemaService } from "./jsonSchemaService";
+import { Thenable, ColorInformation, ColorPresentation, Color, CancellationToken, DocumentSymbol, DocumentSymbolsContext, PromiseConstructor } from "../jsonLanguageService";
+import { IJSONSchemaService, ResolvedSchema } from "./jsonSchemaService";
 
 export class JSONDocumentSymbols {
 
-	constructor(private schemaService: IJSONSchemaService) {
+	private promise: PromiseConstructor;
+
+	constructor(private schemaService: IJSONSchemaService, promiseConstructor?: PromiseConstructor) {
+		this.promise = promiseConstructor || Promise;
 	}
 
 	public findDocumentSymbols(document: TextDocument, doc: Parser.JSONDocument): SymbolInformation[] {
@@ -66,6 +69,76 @@ export class JSONDocumentSymbols {
 		return result;
 	}
 
+	public findDocumentSymbols2(document: TextDocument, doc: Parser.JSONDocument, context?: DocumentSymbolsContext): Thenable<DocumentSymbol[]> {
+		let root = doc.root;
+		if (!root) {
+			return this.promise.resolve([]);
+		}
+		return this.schemaService.getSchemaForResource(document.uri, doc).then(schema => {
+			let labelProperties = this.getLabelProperties(doc, schema);
+			let limit = context && typeof context.resultLimit === 'number' ? context.resultLimit : Number.MAX_VALUE;
+			let limitExceeded = false;
+			let getRange = (node: Parser.ASTNode) => Range.create(document.positionAt(node.start), document.positionAt(node.end));
+
+			// breadth first, so that the innermost symbols are dropped when the limit is reached
+			let toVisit: { node: Parser.ASTNode, result: DocumentSymbol[] }[] = [];
+			let addSymbol = (result: DocumentSymbol[], name: string, node: Parser.ASTNode, valueNode: Parser.ASTNode, selectionNode: Parser.ASTNode) => {
+				if (limit <= 0) {
+					limitExceeded = true;
+					return;
+				}
+				limit--;
+				let symbol: DocumentSymbol = { name, kind: this.getSymbolKind(valueNode.type), range: getRange(node), selectionRange: getRange(selectionNode) };
+				// the label of an object entry is shown next to its key
+				let detail = node !== valueNode && getLabel(valueNode, labelProperties[valueNode.start]) || getDetail(valueNode);
+				if (detail !== void 0) {
+					symbol.detail = detail;
+				}
+				if (valueNode.type === 'object' || valueNode.type === 'array') {
+					symbol.children = [];
+					toVisit.push({ node: valueNode, result: symbol.children });
+				}
+				result.push(symbol);
+			};
+
+			let result: DocumentSymbol[] = [];
+			toVisit.push({ node: root, result });
+			for (let i = 0; i < toVisit.length; i++) {
+				let { node, result } = toVisit[i];
+				if (node.type === 'array') {
+					(<Parser.ArrayASTNode>node).items.forEach((item, index) => {
+						addSymbol(result, getLabel(item, labelProperties[item.start]) || String(index), item, item, item);
+					});
+				} else if (node.type === 'object') {
+					for (let property of (<Parser.ObjectASTNode>node).properties) {
+						if (property.value) {
+							addSymbol(result, property.key.value, property, property.value, property.key);
+						}
+					}
+				}
+			}
+			if (limitExceeded && context && context.onResultLimitExceeded) {
+				context.onResultLimitExceeded(document.uri);
+			}
+			return result;
+		});
+	}
+
+	/**
+	 * Returns the `labelProperty` of the schemas of the object nodes, by the start offset of the nodes.
+	 */
+	private getLabelProperties(doc: Parser.JSONDocument, schema: ResolvedSchema): { [offset: number]: string } {
+		let result: { [offset: number]: string } = {};
+		if (schema) {
+			for (let s of doc.getMatchingSchemas(schema.schema)) {
+				if (!s.inverted && s.node.type === 'object' && typeof s.schema.labelProperty === 'string') {
+					result[s.node.start] = s.schema.labelProperty;
+				}
+			}
+		}
+		return result;
+	}
+
 	private getSymbolKind(nodeType: string): SymbolKind {
 		switch (nodeType) {
 			case 'object':
@@ -83,11 +156,11 @@ export class JSONDocumentSymbols {
 		}
 	}
 
-	public findDocumentColors(document: TextDocument, doc: Parser.JSONDocument): Thenable<ColorInformation[]> {
-		return this.schemaService.getSchemaForResource(document.uri, doc).then(schema => {
+	public findDocumentColors(document: TextDocument, doc: Parser.JSONDocument, token?: CancellationToken): Thenable<ColorInformation[]> {
+		return this.schemaService.getSchemaForResource(document.uri, doc, token).then(schema => {
 			let result: ColorInformation[] = [];
 			if (schema) {
-				let matchingSchemas = doc.getMatchingSchemas(schema.schema);
+				let matchingSchemas = doc.getMatchingSchemas(schema.schema, -1, null, token);
 				let visitedNode = {};
 				for (let s of matchingSchemas) {
 					if (!s.inverted && s.schema && (s.schema.format === 'color' || s.schema.format === 'color-hex') && s.node && s.node.type === 'string') {
@@ -126,6 +199,37 @@ export class JSONDocumentSymbols {
 
 		return result;
 	}
-
-
-}
\ No newline at end of file
+}
+
+function getLabel(node: Parser.ASTNode, labelProperty: string): string {
+	if (labelProperty && node.type === 'object') {
+		let property = (<Parser.ObjectASTNode>node).getFirstProperty(labelProperty);
+		let value = property && property.value && property.value.getValue();
+		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			return String(value);
+		}
+	}
+	return void 0;
+}
+
+const MAX_DETAIL_LENGTH = 50;
+
+/**
+ * A preview of the value: the value of a string, number, boolean or null, or `{}` and `[]` for empty objects and arrays.
+ */
+function getDetail(node: Parser.ASTNode): string {
+	switch (node.type) {
+		case 'string':
+		case 'number':
+		case 'boolean':
+		case 'null': {
+			let value = String(node.getValue());
+			return value.length > MAX_DETAIL_LENGTH ? value.substr(0, MAX_DETAIL_LENGTH) + '\u2026' : value;
+		}
+		case 'object':
+			return (<Parser.ObjectASTNode>node).properties.length ? void 0 : '{}';
+		case 'array':
+			return (<Parser.ArrayASTNode>node).items.length ? void 0 : '[]';
+	}
+	return void 0;
+}
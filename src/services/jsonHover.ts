@@ -8,7 +8,7 @@
 import * as Parser from '../parser/jsonParser';
 import * as SchemaService from './jsonSchemaService';
 import {JSONWorkerContribution} from '../jsonContributions';
-import {PromiseConstructor, Thenable} from '../jsonLanguageService';
+import {PromiseConstructor, Thenable, CancellationToken} from '../jsonLanguageService';
 
 import {Hover, TextDocument, Position, Range, MarkedString} from 'vscode-languageserver-types';
 
@@ -24,7 +24,10 @@ export class JSONHover {
 		this.promise = promiseConstructor || Promise;
 	}
 
-	public doHover(document: TextDocument, position: Position, doc: Parser.JSONDocument): Thenable<Hover> {
+	public doHover(document: TextDocument, position: Position, doc: Parser.JSONDocument, token?: CancellationToken): Thenable<Hover> {
+		if (token && token.isCancellationRequested) {
+			return this.promise.resolve(null);
+		}
 
 		let offset = document.offsetAt(position);
 		let node = doc.getNodeFromOffset(offset);
@@ -60,13 +63,16 @@ export class JSONHover {
 			let contribution = this.contributions[i];
 			let promise = contribution.getInfoContribution(document.uri, location);
 			if (promise) {
-				return promise.then(htmlContent => createHover(htmlContent));
+				return promise.then(htmlContent => token && token.isCancellationRequested ? null : createHover(htmlContent));
 			}
 		}
 
-		return this.schemaService.getSchemaForResource(document.uri, doc).then((schema) => {
+		return this.schemaService.getSchemaForResource(document.uri, doc, token).then((schema) => {
 			if (schema) {
-				let matchingSchemas = doc.getMatchingSchemas(schema.schema, node.start);
+				let matchingSchemas = doc.getMatchingSchemas(schema.schema, node.start, null, token);
+				if (token && token.isCancellationRequested) {
+					return null;
+				}
 
 				let title: string = null;
 				let markdownDescription: string = null;
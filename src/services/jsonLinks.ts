@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { IJSONSchemaService } from './jsonSchemaService';
+import { isRefValue, findNodeAtPath } from './jsonDefinition';
+import { PromiseConstructor, Thenable, WorkspaceContextService } from '../jsonLanguageService';
+import { parseJSONPointer } from '../utils/jsonPointer';
+
+import { TextDocument, DocumentLink, Range } from 'vscode-languageserver-types';
+
+export class JSONLinks {
+
+	private schemaService: IJSONSchemaService;
+	private contextService: WorkspaceContextService;
+	private promise: PromiseConstructor;
+
+	constructor(schemaService: IJSONSchemaService, contextService: WorkspaceContextService, promiseConstructor: PromiseConstructor) {
+		this.schemaService = schemaService;
+		this.contextService = contextService;
+		this.promise = promiseConstructor || Promise;
+	}
+
+	public findLinks(document: TextDocument, doc: Parser.JSONDocument): Thenable<DocumentLink[]> {
+		let result: DocumentLink[] = [];
+		let linkedNodes: { [offset: number]: boolean } = {};
+		let addLink = (node: Parser.ASTNode, target: string) => {
+			if (target && !linkedNodes[node.start]) {
+				linkedNodes[node.start] = true;
+				result.push(DocumentLink.create(getContentRange(document, node), target));
+			}
+		};
+
+		doc.visit(node => {
+			if (isRefValue(node)) {
+				addLink(node, this.getRefTarget(document, doc, <string>node.getValue()));
+			} else if (node.type === 'string' && node.parent && node.parent.type === 'property') {
+				let property = <Parser.PropertyASTNode>node.parent;
+				if (property.value === node && property.key.value === '$schema') {
+					addLink(node, this.resolveURI(<string>node.getValue(), document.uri));
+				}
+			}
+			return true;
+		});
+
+		return this.schemaService.getSchemaForResource(document.uri, doc).then(schema => {
+			if (schema) {
+				let matchingSchemas = doc.getMatchingSchemas(schema.schema);
+				for (let s of matchingSchemas) {
+					if (!s.inverted && s.schema && (s.schema.format === 'uri' || s.schema.format === 'uri-reference') && s.node && s.node.type === 'string') {
+						addLink(s.node, this.resolveURI(<string>s.node.getValue(), document.uri));
+					}
+				}
+			}
+			return result;
+		});
+	}
+
+	private getRefTarget(document: TextDocument, doc: Parser.JSONDocument, ref: string): string {
+		let hashIndex = ref.indexOf('#');
+		if (hashIndex === 0) {
+			// local reference: link to the position of the target node
+			let path = parseJSONPointer(ref.substr(1), true);
+			let target = path && findNodeAtPath(doc.root, path);
+			if (target) {
+				let position = document.positionAt(target.start);
+				return `${document.uri}#${position.line + 1},${position.character + 1}`;
+			}
+			return null;
+		}
+		if (hashIndex === -1) {
+			return this.resolveURI(ref, document.uri);
+		}
+		let uri = this.resolveURI(ref.substr(0, hashIndex), document.uri);
+		return uri && uri + ref.substr(hashIndex);
+	}
+
+	private resolveURI(uri: string, resource: string): string {
+		if (!uri) {
+			return null;
+		}
+		if (/^[a-zA-Z][a-zA-Z0-9+\-.]*:/.test(uri)) {
+			return uri;
+		}
+		return this.contextService ? this.contextService.resolveRelativePath(uri, resource) : null;
+	}
+}
+
+function getContentRange(document: TextDocument, node: Parser.ASTNode): Range {
+	// the link covers the string content, without the quotes
+	return Range.create(document.positionAt(node.start + 1), document.positionAt(node.end - 1));
+}
@@ -0,0 +1,225 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { Segment } from '../jsonContributions';
+import { findNodeAtPath } from './jsonDefinition';
+import { parseJSONPointer } from '../utils/jsonPointer';
+
+interface QuerySelector {
+	wildcard?: boolean;
+	/**
+	 * A property name or an array index. Negative indices count from the end of the array.
+	 */
+	key?: Segment;
+	slice?: { start: number; end: number; step: number };
+}
+
+interface QuerySegment {
+	/**
+	 * Whether the selectors apply to the node and all its descendants (`..`), not only to the node.
+	 */
+	descendants: boolean;
+	selectors: QuerySelector[];
+}
+
+/**
+ * Returns the value node at the JSON pointer (RFC 6901), e.g. `/a/b/0`. Pointers starting with `#` are taken as URI fragments.
+ * Returns null if the pointer is invalid or no node is at the pointer.
+ */
+export function findNodeAtPointer(doc: Parser.JSONDocument, pointer: string): Parser.TypedASTNode {
+	let path = pointer && pointer[0] === '#' ? parseJSONPointer(pointer.substr(1), true) : parseJSONPointer(pointer);
+	return path ? findNodeAtPath(doc.root, path) : null;
+}
+
+/**
+ * Returns the value nodes selected by the JSONPath query, e.g. `$.services[*].image`. Supported are member names in dot and
+ * bracket notation, array indices, wildcards, unions, array slices and the descendant operator `..`. Filter expressions are not supported.
+ * Returns null if the query is invalid.
+ */
+export function queryNodes(doc: Parser.JSONDocument, query: string): Parser.TypedASTNode[] {
+	let segments = parseQuery(query);
+	if (!segments) {
+		return null;
+	}
+	let nodes = doc.root ? [doc.root] : [];
+	for (let segment of segments) {
+		let result: Parser.TypedASTNode[] = [];
+		for (let node of segment.descendants ? getDescendants(nodes) : nodes) {
+			for (let selector of segment.selectors) {
+				select(node, selector, result);
+			}
+		}
+		nodes = result;
+	}
+	return nodes;
+}
+
+function getValueChildren(node: Parser.TypedASTNode): Parser.TypedASTNode[] {
+	if (node.type === 'object') {
+		return (<Parser.ObjectASTNode>node).properties.map(p => p.value).filter(v => !!v);
+	}
+	if (node.type === 'array') {
+		return (<Parser.ArrayASTNode>node).items;
+	}
+	return [];
+}
+
+function getDescendants(nodes: Parser.TypedASTNode[]): Parser.TypedASTNode[] {
+	let result: Parser.TypedASTNode[] = [];
+	let collect = (node: Parser.TypedASTNode) => {
+		result.push(node);
+		getValueChildren(node).forEach(collect);
+	};
+	nodes.forEach(collect);
+	return result;
+}
+
+function select(node: Parser.TypedASTNode, selector: QuerySelector, result: Parser.TypedASTNode[]): void {
+	if (selector.wildcard) {
+		result.push(...getValueChildren(node));
+	} else if (typeof selector.key === 'string') {
+		if (node.type === 'object') {
+			let property = (<Parser.ObjectASTNode>node).getFirstProperty(selector.key);
+			if (property && property.value) {
+				result.push(property.value);
+			}
+		}
+	} else if (node.type === 'array') {
+		let items = (<Parser.ArrayASTNode>node).items;
+		if (typeof selector.key === 'number') {
+			let item = items[selector.key < 0 ? items.length + selector.key : selector.key];
+			if (item) {
+				result.push(item);
+			}
+		} else if (selector.slice && selector.slice.step !== 0) {
+			let { start, end, step } = selector.slice;
+			let length = items.length;
+			let normalize = (index: number) => index < 0 ? Math.max(length + index, step > 0 ? 0 : -1) : Math.min(index, step > 0 ? length : length - 1);
+			let from = start === null ? (step > 0 ? 0 : length - 1) : normalize(start);
+			let to = end === null ? (step > 0 ? length : -1) : normalize(end);
+			for (let i = from; step > 0 ? i < to : i > to; i += step) {
+				result.push(items[i]);
+			}
+		}
+	}
+}
+
+function parseQuery(query: string): QuerySegment[] {
+	if (typeof query !== 'string' || query[0] !== '$') {
+		return null;
+	}
+	let pos = 1;
+	let skipWhitespace = () => {
+		while (pos < query.length && /\s/.test(query[pos])) {
+			pos++;
+		}
+	};
+	let parseInteger = (): number => {
+		let match = /^-?\d+/.exec(query.substr(pos));
+		if (!match) {
+			return null;
+		}
+		pos += match[0].length;
+		return parseInt(match[0], 10);
+	};
+	let parseString = (): string => {
+		let quote = query[pos++];
+		let value = '';
+		while (pos < query.length && query[pos] !== quote) {
+			if (query[pos] === '\\') {
+				pos++;
+			}
+			value += query[pos++];
+		}
+		if (pos >= query.length) {
+			return null;
+		}
+		pos++;
+		return value;
+	};
+	let parseSelector = (): QuerySelector => {
+		skipWhitespace();
+		let ch = query[pos];
+		if (ch === '*') {
+			pos++;
+			return { wildcard: true };
+		}
+		if (ch === '\'' || ch === '"') {
+			let key = parseString();
+			return key !== null ? { key } : null;
+		}
+		let start = parseInteger();
+		skipWhitespace();
+		if (query[pos] !== ':') {
+			return start !== null ? { key: start } : null;
+		}
+		pos++;
+		skipWhitespace();
+		let end = parseInteger(), step = 1;
+		skipWhitespace();
+		if (query[pos] === ':') {
+			pos++;
+			skipWhitespace();
+			let value = parseInteger();
+			step = value !== null ? value : 1;
+		}
+		return { slice: { start, end, step } };
+	};
+	let parseBracket = (): QuerySelector[] => {
+		let selectors: QuerySelector[] = [];
+		pos++;
+		while (true) {
+			let selector = parseSelector();
+			if (!selector) {
+				return null;
+			}
+			selectors.push(selector);
+			skipWhitespace();
+			if (query[pos] === ']') {
+				pos++;
+				return selectors;
+			}
+			if (query[pos] !== ',') {
+				return null;
+			}
+			pos++;
+		}
+	};
+	let parseName = (): QuerySelector[] => {
+		if (query[pos] === '*') {
+			pos++;
+			return [{ wildcard: true }];
+		}
+		let match = /^[^.\[\]\s'"*]+/.exec(query.substr(pos));
+		if (!match) {
+			return null;
+		}
+		pos += match[0].length;
+		return [{ key: match[0] }];
+	};
+
+	let segments: QuerySegment[] = [];
+	while (pos < query.length) {
+		let segment: QuerySegment;
+		if (query.substr(pos, 2) === '..') {
+			pos += 2;
+			segment = { descendants: true, selectors: query[pos] === '[' ? parseBracket() : parseName() };
+		} else if (query[pos] === '.') {
+			pos++;
+			segment = { descendants: false, selectors: parseName() };
+		} else if (query[pos] === '[') {
+			segment = { descendants: false, selectors: parseBracket() };
+		} else {
+			return null;
+		}
+		if (!segment.selectors) {
+			return null;
+		}
+		segments.push(segment);
+	}
+	return segments;
+}
@@ -0,0 +1,118 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { isRefValue, findNodeAtPath } from './jsonDefinition';
+import { parseJSONPointer, formatJSONPointer } from '../utils/jsonPointer';
+
+import { TextDocument, Position, Location, Range, TextEdit, WorkspaceEdit, ReferenceContext } from 'vscode-languageserver-types';
+
+interface Reference {
+	node: Parser.StringASTNode;
+	path: string[];
+}
+
+export function findReferences(document: TextDocument, position: Position, doc: Parser.JSONDocument, context?: ReferenceContext): Location[] {
+	let definition = getDefinitionAt(document, position, doc);
+	if (!definition) {
+		return [];
+	}
+	let result: Location[] = [];
+	if (context && context.includeDeclaration) {
+		result.push(Location.create(document.uri, getRange(document, definition.key)));
+	}
+	collectReferences(doc, getDefinitionPath(definition)).forEach(reference => {
+		result.push(Location.create(document.uri, getRange(document, reference.node)));
+	});
+	return result;
+}
+
+export function doRename(document: TextDocument, position: Position, newName: string, doc: Parser.JSONDocument): WorkspaceEdit {
+	let definition = getDefinitionAt(document, position, doc);
+	if (!definition) {
+		return null;
+	}
+	// a duplicate key would leave the references pointing to one of the two entries
+	let container = <Parser.ObjectASTNode>definition.parent;
+	if (container.properties.some(property => property !== definition && property.key.value === newName)) {
+		return null;
+	}
+	let definitionPath = getDefinitionPath(definition);
+	let edits: TextEdit[] = [TextEdit.replace(getRange(document, definition.key), JSON.stringify(newName))];
+	collectReferences(doc, definitionPath).forEach(reference => {
+		let path = reference.path.slice(0);
+		path[definitionPath.length - 1] = newName;
+		edits.push(TextEdit.replace(getRange(document, reference.node), JSON.stringify('#' + formatJSONPointer(path, true))));
+	});
+	let changes: { [uri: string]: TextEdit[] } = {};
+	changes[document.uri] = edits;
+	return { changes };
+}
+
+/**
+ * Returns the `definitions` or `$defs` entry at the given position, either from the definition's key or from a local `$ref` pointing to it.
+ */
+function getDefinitionAt(document: TextDocument, position: Position, doc: Parser.JSONDocument): Parser.PropertyASTNode {
+	let node = doc.getNodeFromOffset(document.offsetAt(position));
+	if (isRefValue(node)) {
+		let path = getLocalRefPath(<string>node.getValue());
+		let target = path && path.length && findNodeAtPath(doc.root, path);
+		node = target && target.parent;
+	} else if (node && node.type === 'string' && (<Parser.StringASTNode>node).isKey) {
+		node = node.parent;
+	} else {
+		return null;
+	}
+	if (node && node.type === 'property' && isDefinitionsContainer(node.parent)) {
+		return <Parser.PropertyASTNode>node;
+	}
+	return null;
+}
+
+function isDefinitionsContainer(node: Parser.ASTNode): boolean {
+	let property = node && <Parser.PropertyASTNode>node.parent;
+	if (node && node.type === 'object' && property && property.type === 'property' && property.value === node) {
+		let key = property.key.value;
+		if (key === 'definitions' || key === '$defs') {
+			// a property named 'definitions' in a 'properties' map is not a definitions container
+			let container = property.parent && <Parser.PropertyASTNode>property.parent.parent;
+			return !container || container.type !== 'property' || (container.key.value !== 'properties' && container.key.value !== 'patternProperties');
+		}
+	}
+	return false;
+}
+
+function getDefinitionPath(definition: Parser.PropertyASTNode): string[] {
+	return definition.parent.getPath().map(String).concat(definition.key.value);
+}
+
+function getLocalRefPath(ref: string): string[] {
+	if (ref[0] !== '#') {
+		return null;
+	}
+	return parseJSONPointer(ref.substr(1), true);
+}
+
+/**
+ * Collects all local `$ref`s that point to the given path or into it.
+ */
+function collectReferences(doc: Parser.JSONDocument, definitionPath: string[]): Reference[] {
+	let result: Reference[] = [];
+	doc.visit(node => {
+		if (isRefValue(node)) {
+			let path = getLocalRefPath(<string>node.getValue());
+			if (path && path.length >= definitionPath.length && definitionPath.every((segment, i) => segment === path[i])) {
+				result.push({ node: <Parser.StringASTNode>node, path });
+			}
+		}
+		return true;
+	});
+	return result;
+}
+
+function getRange(document: TextDocument, node: Parser.ASTNode): Range {
+	return Range.create(document.positionAt(node.start), document.positionAt(node.end));
+}
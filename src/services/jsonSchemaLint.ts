@@ -0,0 +1,227 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { findNodeAtPath } from './jsonDefinition';
+import { parseJSONPointer } from '../utils/jsonPointer';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+const draft04Keywords = [
+	'$schema', 'id', '$ref', 'title', 'description', 'default', 'multipleOf', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+	'maxLength', 'minLength', 'pattern', 'additionalItems', 'items', 'maxItems', 'minItems', 'uniqueItems', 'maxProperties', 'minProperties',
+	'required', 'additionalProperties', 'definitions', 'properties', 'patternProperties', 'dependencies', 'enum', 'type', 'format',
+	'allOf', 'anyOf', 'oneOf', 'not'
+];
+const draft06Keywords = draft04Keywords.filter(k => k !== 'id').concat(['$id', 'examples', 'const', 'contains', 'propertyNames']);
+const draft07Keywords = draft06Keywords.concat(['$comment', 'if', 'then', 'else', 'readOnly', 'writeOnly', 'contentMediaType', 'contentEncoding']);
+const draft2019Keywords = draft07Keywords.concat(['$anchor', '$recursiveRef', '$recursiveAnchor', '$vocabulary', '$defs', 'dependentRequired', 'dependentSchemas',
+	'unevaluatedItems', 'unevaluatedProperties', 'minContains', 'maxContains', 'deprecated', 'contentSchema']);
+const draft2020Keywords = draft2019Keywords.filter(k => k !== '$recursiveRef' && k !== '$recursiveAnchor').concat(['$dynamicRef', '$dynamicAnchor', 'prefixItems']);
+
+// the schema extensions understood by this language service
+const extensionKeywords = [
+	'defaultSnippets', 'errorMessage', 'patternErrorMessage', 'deprecationMessage', 'enumDescriptions', 'markdownEnumDescriptions',
+	'markdownDescription', 'doNotSuggest', 'allowComments', 'discriminator', 'labelProperty'
+];
+
+const subschemaKeywords = ['items', 'additionalItems', 'additionalProperties', 'not', 'contains', 'propertyNames', 'if', 'then', 'else', 'unevaluatedItems', 'unevaluatedProperties', 'contentSchema', 'anyOf', 'allOf', 'oneOf', 'prefixItems'];
+const subschemaMapKeywords = ['definitions', '$defs', 'properties', 'patternProperties', 'dependencies', 'dependentSchemas'];
+
+// keywords of a schema that only contains definitions for other schemas
+const definitionsLibraryKeywords = ['$schema', '$id', 'id', 'title', 'description', '$comment', 'definitions', '$defs'];
+
+const boundKeywords = [['minimum', 'maximum'], ['minLength', 'maxLength'], ['minItems', 'maxItems'], ['minProperties', 'maxProperties'], ['minContains', 'maxContains']];
+
+function getKnownKeywords(draft: Parser.SchemaDraft): string[] {
+	switch (draft) {
+		case Parser.SchemaDraft.v4: return draft04Keywords.concat(extensionKeywords);
+		case Parser.SchemaDraft.v6: return draft06Keywords.concat(extensionKeywords);
+		case Parser.SchemaDraft.v7: return draft07Keywords.concat(extensionKeywords);
+		case Parser.SchemaDraft.v2019_09: return draft2019Keywords.concat(extensionKeywords);
+		case Parser.SchemaDraft.v2020_12: return draft2020Keywords.concat(extensionKeywords);
+	}
+	return null;
+}
+
+function getDraftName(draft: Parser.SchemaDraft): string {
+	switch (draft) {
+		case Parser.SchemaDraft.v2019_09: return '2019-09';
+		case Parser.SchemaDraft.v2020_12: return '2020-12';
+	}
+	return 'draft-0' + draft;
+}
+
+interface Reference {
+	node: Parser.ASTNode;
+	ref: string;
+	inEmbeddedResource: boolean;
+}
+
+/**
+ * Reports schema authoring problems in a document that is itself a JSON schema, that is, a document whose `$schema` is a known meta-schema.
+ * The problems are in addition to the ones found by validating the document against its meta-schema.
+ */
+export function validateSchemaDocument(doc: Parser.JSONDocument): Parser.IProblem[] {
+	let root = doc.root;
+	if (!root || root.type !== 'object') {
+		return [];
+	}
+	let schemaProperty = (<Parser.ObjectASTNode>root).getFirstProperty('$schema');
+	let draft = schemaProperty && schemaProperty.value ? Parser.getSchemaDraft(schemaProperty.value.getValue()) : void 0;
+	if (draft === void 0) {
+		return [];
+	}
+
+	let problems: Parser.IProblem[] = [];
+	let addProblem = (node: Parser.ASTNode, code: Parser.ErrorCode, message: string) => {
+		problems.push({ location: { start: node.start, end: node.end }, severity: Parser.ProblemSeverity.Warning, code, message });
+	};
+
+	let knownKeywords = getKnownKeywords(draft);
+	let idKeyword = draft < Parser.SchemaDraft.v6 ? 'id' : '$id';
+	let anchors: { [name: string]: boolean } = Object.create(null);
+	let references: Reference[] = [];
+	let definitions: Parser.PropertyASTNode[] = [];
+
+	let visitSchema = (node: Parser.ASTNode, inEmbeddedResource: boolean) => {
+		if (!node || node.type !== 'object') {
+			return;
+		}
+		let schema = <Parser.ObjectASTNode>node;
+		let getValue = (keyword: string): Parser.ASTNode => {
+			let property = schema.getFirstProperty(keyword);
+			return property && property.value;
+		};
+
+		let id = getValue(idKeyword);
+		if (id && id.type === 'string') {
+			let value = <string>id.getValue();
+			if (value[0] === '#') {
+				anchors[value.substr(1)] = true;
+			} else if (node !== root) {
+				// local references in an embedded resource are relative to that resource
+				inEmbeddedResource = true;
+			}
+		}
+		['$anchor', '$dynamicAnchor'].forEach(keyword => {
+			let anchor = getValue(keyword);
+			if (anchor && anchor.type === 'string') {
+				anchors[anchor.getValue()] = true;
+			}
+		});
+
+		for (let property of schema.properties) {
+			let keyword = property.key.value;
+			let value = property.value;
+			if (knownKeywords && knownKeywords.indexOf(keyword) === -1 && keyword.indexOf('x-') !== 0) {
+				addProblem(property.key, Parser.ErrorCode.UnknownKeyword, localize('unknownKeywordWarning', '"{0}" is not a keyword of JSON schema {1}.', keyword, getDraftName(draft)));
+			}
+			if (!value) {
+				continue;
+			}
+			if (keyword === '$ref' && value.type === 'string') {
+				references.push({ node: value, ref: value.getValue(), inEmbeddedResource });
+			} else if (keyword === 'pattern' && value.type === 'string') {
+				validateRegex(value, value.getValue(), addProblem);
+			} else if (subschemaKeywords.indexOf(keyword) !== -1) {
+				if (value.type === 'array') {
+					(<Parser.ArrayASTNode>value).items.forEach(item => visitSchema(item, inEmbeddedResource));
+				} else {
+					visitSchema(value, inEmbeddedResource);
+				}
+			} else if (subschemaMapKeywords.indexOf(keyword) !== -1 && value.type === 'object') {
+				for (let entry of (<Parser.ObjectASTNode>value).properties) {
+					if (keyword === 'patternProperties') {
+						validateRegex(entry.key, entry.key.value, addProblem);
+					} else if ((keyword === 'definitions' || keyword === '$defs') && !inEmbeddedResource) {
+						definitions.push(entry);
+					}
+					visitSchema(entry.value, inEmbeddedResource);
+				}
+			}
+		}
+
+		let required = getValue('required');
+		let properties = getValue('properties');
+		if (required && required.type === 'array' && properties && properties.type === 'object') {
+			let patternProperties = getValue('patternProperties');
+			let patterns = patternProperties && patternProperties.type === 'object' ? (<Parser.ObjectASTNode>patternProperties).properties.map(p => p.key.value) : [];
+			for (let item of (<Parser.ArrayASTNode>required).items) {
+				let name = item.getValue();
+				if (typeof name === 'string' && !(<Parser.ObjectASTNode>properties).getFirstProperty(name) && !patterns.some(pattern => matchesPattern(pattern, name))) {
+					addProblem(item, Parser.ErrorCode.RequiredPropertyNotDefined, localize('requiredPropertyNotDefinedWarning', 'Required property "{0}" is not defined in "properties".', name));
+				}
+			}
+		}
+
+		for (let [minKeyword, maxKeyword] of boundKeywords) {
+			let min = getValue(minKeyword), max = getValue(maxKeyword);
+			if (min && max && min.type === 'number' && max.type === 'number' && min.getValue() > max.getValue()) {
+				addProblem(min, Parser.ErrorCode.MinimumGreaterThanMaximum, localize('minimumGreaterThanMaximumWarning', '"{0}" is greater than "{1}". No value can be valid.', minKeyword, maxKeyword));
+			}
+		}
+	};
+	visitSchema(root, false);
+
+	for (let reference of references) {
+		if (reference.ref[0] !== '#' || reference.inEmbeddedResource) {
+			continue;
+		}
+		let fragment = reference.ref.substr(1);
+		if (!anchors[fragment] && !findTargetNode(root, fragment)) {
+			addProblem(reference.node, Parser.ErrorCode.UnresolvedReference, localize('unresolvedReferenceWarning', '$ref \'{0}\' can not be resolved.', reference.ref));
+		}
+	}
+
+	let isDefinitionsLibrary = (<Parser.ObjectASTNode>root).properties.every(p => definitionsLibraryKeywords.indexOf(p.key.value) !== -1);
+	if (!isDefinitionsLibrary) {
+		let referencedPaths = references.map(reference => {
+			let hashIndex = reference.ref.indexOf('#');
+			return hashIndex !== -1 ? parseJSONPointer(reference.ref.substr(hashIndex + 1), true) : null;
+		}).filter(path => !!path);
+		for (let definition of definitions) {
+			let path = definition.value ? definition.value.getPath().map(String) : definition.parent.getPath().map(String).concat(definition.key.value);
+			let isReferenced = referencedPaths.some(referencedPath => referencedPath.length >= path.length && path.every((segment, i) => segment === referencedPath[i]));
+			// definitions with an identifier or an anchor can be referenced without a JSON pointer
+			if (!isReferenced && !hasIdentifier(definition.value, idKeyword)) {
+				addProblem(definition.key, Parser.ErrorCode.UnusedDefinition, localize('unusedDefinitionWarning', 'Definition "{0}" is not used.', definition.key.value));
+			}
+		}
+	}
+	return problems;
+}
+
+function findTargetNode(root: Parser.TypedASTNode, fragment: string): Parser.TypedASTNode {
+	// like the schema service, also accept pointers without the leading slash
+	let path = parseJSONPointer(fragment && fragment[0] !== '/' ? '/' + fragment : fragment, true);
+	return path && findNodeAtPath(root, path);
+}
+
+function hasIdentifier(node: Parser.ASTNode, idKeyword: string): boolean {
+	if (node && node.type === 'object') {
+		let schema = <Parser.ObjectASTNode>node;
+		return !!(schema.getFirstProperty(idKeyword) || schema.getFirstProperty('$anchor') || schema.getFirstProperty('$dynamicAnchor'));
+	}
+	return false;
+}
+
+function validateRegex(node: Parser.ASTNode, pattern: string, addProblem: (node: Parser.ASTNode, code: Parser.ErrorCode, message: string) => void): void {
+	try {
+		RegExp(pattern); // throws if the pattern is invalid
+	} catch (e) {
+		addProblem(node, Parser.ErrorCode.InvalidRegularExpression, localize('invalidRegexWarning', 'Invalid regular expression: {0}', e.message));
+	}
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+	try {
+		return new RegExp(pattern).test(value);
+	} catch (e) {
+		return false;
+	}
+}
@@ -5,11 +5,12 @@
 'use strict';
 
 import * as Json from 'jsonc-parser';
-import { JSONSchema, JSONSchemaMap, JSONSchemaRef } from '../jsonSchema';
+import { JSONSchema, JSONSchemaRef } from '../jsonSchema';
 import URI from 'vscode-uri';
 import * as Strings from '../utils/strings';
+import { parseJSONPointer, formatJSONPointer } from '../utils/jsonPointer';
 import * as Parser from '../parser/jsonParser';
-import { SchemaRequestService, WorkspaceContextService, PromiseConstructor, Thenable } from '../jsonLanguageService';
+import { SchemaRequestService, WorkspaceContextService, PromiseConstructor, Thenable, CancellationToken } from '../jsonLanguageService';
 
 
 import * as nls from 'vscode-nls';
@@ -33,9 +34,9 @@ export interface IJSONSchemaService {
 	setSchemaContributions(schemaContributions: ISchemaContributions): void;
 
 	/**
-	 * Looks up the appropriate schema for the given URI
+	 * Looks up the appropriate schema for the given URI. Resolves to null if the token is cancelled. The loading of the schema is not cancelled.
 	 */
-	getSchemaForResource(resource: string, document: Parser.JSONDocument): Thenable<ResolvedSchema>;
+	getSchemaForResource(resource: string, document: Parser.JSONDocument, token?: CancellationToken): Thenable<ResolvedSchema>;
 
 	/**
 	 * Returns all registered schema ids
@@ -139,20 +140,103 @@ class SchemaHandle implements ISchemaHandle {
 export class UnresolvedSchema {
 	public schema: JSONSchema;
 	public errors: string[];
+	/**
+	 * The text the schema was parsed from, if the schema was loaded by the schema request service
+	 */
+	public content: string;
+	/**
+	 * The pointers of the subschemas, collected on the first request
+	 */
+	private pointers: SchemaPointers;
+	/**
+	 * The targets of the keywords that resolving `$ref`s merged into the subschemas, by keyword. These keywords are not part of the schema document.
+	 */
+	private mergedKeywords: { [keyword: string]: JSONSchema[] } = Object.create(null);
 
-	constructor(schema: JSONSchema, errors: string[] = []) {
+	constructor(schema: JSONSchema, errors: string[] = [], content?: string) {
 		this.schema = schema;
 		this.errors = errors;
+		this.content = content;
+	}
+
+	public addMergedKeyword(target: JSONSchema, keyword: string): void {
+		(this.mergedKeywords[keyword] || (this.mergedKeywords[keyword] = [])).push(target);
+	}
+
+	/**
+	 * Returns the JSON pointer of the given subschema in the schema document, or null if the subschema is not part of this schema.
+	 */
+	public getPointer(subschema: JSONSchema): string {
+		if (!this.pointers) {
+			this.pointers = collectSchemaPointers(this.schema, (node, keyword) => {
+				let targets = this.mergedKeywords[keyword];
+				return !!targets && targets.indexOf(node) !== -1;
+			});
+		}
+		let index = this.pointers.schemas.indexOf(subschema);
+		return index !== -1 ? this.pointers.pointers[index] : null;
 	}
 }
 
+export interface SchemaSource {
+	/**
+	 * The URI of the schema document.
+	 */
+	uri: string;
+	/**
+	 * The JSON pointer of the subschema in the schema document.
+	 */
+	pointer: string;
+	/**
+	 * The text of the schema document, if the schema was loaded by the schema request service.
+	 */
+	content?: string;
+}
+
+export interface SchemaDocument {
+	uri: string;
+	schema: UnresolvedSchema;
+}
+
+export interface MergedKeyword {
+	target: JSONSchema;
+	keyword: string;
+	source: JSONSchema;
+}
+
 export class ResolvedSchema {
 	public schema: JSONSchema;
 	public errors: string[];
+	private documents: SchemaDocument[];
+	private mergedKeywords: MergedKeyword[];
 
-	constructor(schema: JSONSchema, errors: string[] = []) {
+	constructor(schema: JSONSchema, errors: string[] = [], documents: SchemaDocument[] = [], mergedKeywords: MergedKeyword[] = []) {
 		this.schema = schema;
 		this.errors = errors;
+		this.documents = documents;
+		this.mergedKeywords = mergedKeywords;
+	}
+
+	/**
+	 * Returns the schema document and the location in it that the given subschema comes from. If a keyword is given, keywords
+	 * that were copied from the target of a `$ref` are traced back to the target.
+	 */
+	public getSource(subschema: JSONSchema, keyword?: string): SchemaSource {
+		if (keyword) {
+			for (let i = this.mergedKeywords.length - 1; i >= 0; i--) {
+				let merged = this.mergedKeywords[i];
+				if (merged.target === subschema && merged.keyword === keyword) {
+					return this.getSource(merged.source, keyword);
+				}
+			}
+		}
+		for (let document of this.documents) {
+			let pointer = document.schema.getPointer(subschema);
+			if (pointer !== null) {
+				return { uri: document.uri, pointer, content: document.schema.content };
+			}
+		}
+		return null;
 	}
 
 	public getSection(path: string[]): JSONSchema {
@@ -335,6 +419,11 @@ export class JSONSchemaService implements IJSONSchemaService {
 		return this.promise.resolve(null);
 	}
 
+	public getUnresolvedSchema(schemaId: string): Thenable<UnresolvedSchema> {
+		let id = this.normalizeId(schemaId);
+		return this.getOrAddSchemaHandle(id).getUnresolvedSchema();
+	}
+
 	public loadSchema(url: string): Thenable<UnresolvedSchema> {
 		if (!this.requestService) {
 			let errorMessage = localize('json.schema.norequestservice', 'Unable to load schema from \'{0}\'. No schema request service available', toDisplayString(url));
@@ -351,7 +440,7 @@ export class JSONSchemaService implements IJSONSchemaService {
 				let jsonErrors: Json.ParseError[] = [];
 				schemaContent = Json.parse(content, jsonErrors);
 				let errors = jsonErrors.length ? [localize('json.schema.invalidFormat', 'Unable to parse content from \'{0}\': Parse error at offset {1}.', toDisplayString(url), jsonErrors[0].offset)] : [];
-				return new UnresolvedSchema(schemaContent, errors);
+				return new UnresolvedSchema(schemaContent, errors, content);
 			},
 			(error: any) => {
 				let errorMessage = localize('json.schema.unabletoload', 'Unable to load schema from \'{0}\': {1}', toDisplayString(url), error.toString());
@@ -366,121 +455,230 @@ export class JSONSchemaService implements IJSONSchemaService {
 		let schema = schemaToResolve.schema;
 		let contextService = this.contextService;
 
-		let findSection = (schema: JSONSchema, path: string): any => {
+		// the schema resources, i.e. the loaded schemas and their subschemas with an identifier, by URI
+		let resources: { [uri: string]: SchemaResource } = Object.create(null);
+		let loadingResources: { [uri: string]: Thenable<any> } = Object.create(null);
+		let seen: JSONSchema[] = [];
+		// the provenance of the subschemas: the schema documents involved and the keywords merged from $ref targets
+		let documents: SchemaDocument[] = [{ uri: schemaURL, schema: schemaToResolve }];
+		let mergedKeywords: MergedKeyword[] = [];
+		// the subschemas with an identifier and their identifiers, in the keyword of the dialect of their document
+		let identified: JSONSchema[] = [];
+		let identifiers: string[] = [];
+
+		let resolveURI = (reference: string, baseURI: string): string => {
+			let hashIndex = reference.indexOf('#');
+			let fragment = hashIndex !== -1 ? reference.substr(hashIndex) : '';
+			let path = hashIndex !== -1 ? reference.substr(0, hashIndex) : reference;
 			if (!path) {
-				return schema;
+				return baseURI + fragment;
 			}
-			let current: any = schema;
-			if (path[0] === '/') {
-				path = path.substr(1);
+			if (/^[a-zA-Z][a-zA-Z0-9+\-.]*:/.test(path)) {
+				return path + fragment;
 			}
-			path.split('/').some((part) => {
-				current = current[part];
-				return !current;
-			});
-			return current;
+			if (contextService) {
+				return contextService.resolveRelativePath(path, baseURI) + fragment;
+			}
+			return resolveRelativeURI(path, baseURI) + fragment;
 		};
 
-		let merge = (target: JSONSchema, sourceRoot: JSONSchema, sourceURI: string, path: string): void => {
-			let section = findSection(sourceRoot, path);
-			if (section) {
-				for (let key in section) {
-					if (section.hasOwnProperty(key) && !target.hasOwnProperty(key)) {
-						target[key] = section[key];
+		let splitURI = (uri: string): { uri: string, fragment: string } => {
+			let hashIndex = uri.indexOf('#');
+			if (hashIndex === -1) {
+				return { uri: this.normalizeId(uri), fragment: '' };
+			}
+			return { uri: this.normalizeId(uri.substr(0, hashIndex)), fragment: uri.substr(hashIndex + 1) };
+		};
+
+		// the base URI of a subschema, given the base URI of its parent
+		let getBaseURI = (subschema: JSONSchema, parentBaseURI: string): string => {
+			let index = identified.indexOf(subschema);
+			return index !== -1 ? splitURI(resolveURI(identifiers[index], parentBaseURI)).uri : parentBaseURI;
+		};
+
+		let addResource = (uri: string, resourceSchema: JSONSchema): SchemaResource => {
+			let resource = resources[uri];
+			if (!resource) {
+				resource = resources[uri] = { schema: resourceSchema, anchors: Object.create(null), dynamicAnchors: Object.create(null) };
+			}
+			return resource;
+		};
+
+		// registers the resources and anchors of a loaded schema, tracking the base URI changes of embedded identifiers
+		let indexResources = (root: JSONSchema, rootURI: string) => {
+			// draft-04 and earlier identify a schema with `id`, later drafts with `$id`
+			let draft = Parser.getSchemaDraft(root.$schema);
+			let usesId = draft !== void 0 && draft <= Parser.SchemaDraft.v4;
+			let visited: JSONSchema[] = [];
+			let index = (node: JSONSchema, resource: SchemaResource, baseURI: string) => {
+				if (visited.indexOf(node) !== -1) {
+					return;
+				}
+				visited.push(node);
+				let identifier = usesId ? node.id : node.$id;
+				if (typeof identifier === 'string') {
+					identified.push(node);
+					identifiers.push(identifier);
+					let id = splitURI(resolveURI(identifier, baseURI));
+					if (id.uri !== baseURI) {
+						resource = addResource(id.uri, node);
+						baseURI = id.uri;
+					}
+					if (id.fragment) {
+						// draft-04 to draft-07 define plain name fragments with the identifier
+						resource.anchors[id.fragment] = node;
 					}
 				}
-			} else {
-				resolveErrors.push(localize('json.schema.invalidref', '$ref \'{0}\' in \'{1}\' can not be resolved.', path, sourceURI));
+				if (typeof node.$anchor === 'string') {
+					resource.anchors[node.$anchor] = node;
+				}
+				if (typeof node.$dynamicAnchor === 'string') {
+					resource.anchors[node.$dynamicAnchor] = node;
+					resource.dynamicAnchors[node.$dynamicAnchor] = node;
+				}
+				for (let subschema of getSubschemas(node)) {
+					index(subschema, resource, baseURI);
+				}
+			};
+			index(root, addResource(rootURI, root), rootURI);
+		};
+
+		let loadResource = (uri: string, fragment: string): Thenable<any> => {
+			if (!loadingResources[uri]) {
+				loadingResources[uri] = this.getOrAddSchemaHandle(uri).getUnresolvedSchema().then(unresolvedSchema => {
+					if (unresolvedSchema.errors.length) {
+						let loc = fragment ? uri + '#' + fragment : uri;
+						resolveErrors.push(localize('json.schema.problemloadingref', 'Problems loading reference \'{0}\': {1}', loc, unresolvedSchema.errors[0]));
+					}
+					documents.push({ uri, schema: unresolvedSchema });
+					indexResources(unresolvedSchema.schema, uri);
+				});
 			}
+			return loadingResources[uri];
 		};
 
-		let resolveExternalLink = (node: JSONSchema, uri: string, linkPath: string, parentSchemaURL: string): Thenable<any> => {
-			if (contextService && !/^\w+:\/\/.*/.test(uri)) {
-				uri = contextService.resolveRelativePath(uri, parentSchemaURL);
+		let findTarget = (resource: SchemaResource, uri: string, fragment: string): { schema: JSONSchema, baseURI: string } => {
+			if (!fragment) {
+				return { schema: resource.schema, baseURI: uri };
+			}
+			if (fragment[0] !== '/' && resource.anchors[fragment]) {
+				return { schema: resource.anchors[fragment], baseURI: uri };
+			}
+			let segments = parseJSONPointer(fragment[0] === '/' ? fragment : '/' + fragment, true);
+			if (!segments) {
+				return null;
 			}
-			uri = this.normalizeId(uri);
-			return this.getOrAddSchemaHandle(uri).getUnresolvedSchema().then(unresolvedSchema => {
-				if (unresolvedSchema.errors.length) {
-					let loc = linkPath ? uri + '#' + linkPath : uri;
-					resolveErrors.push(localize('json.schema.problemloadingref', 'Problems loading reference \'{0}\': {1}', loc, unresolvedSchema.errors[0]));
+			let current: any = resource.schema;
+			let baseURI = uri;
+			for (let segment of segments) {
+				current = current[segment];
+				if (!current || typeof current !== 'object') {
+					return null;
 				}
-				merge(node, unresolvedSchema.schema, uri, linkPath);
-				return resolveRefs(node, unresolvedSchema.schema, uri);
-			});
+				baseURI = getBaseURI(current, baseURI);
+			}
+			return { schema: current, baseURI };
 		};
 
-		let resolveRefs = (node: JSONSchema, parentSchema: JSONSchema, parentSchemaURL: string): Thenable<any> => {
-			if (!node || typeof node !== 'object') {
-				return Promise.resolve(null);
+		let merge = (target: JSONSchema, section: JSONSchema): string[] => {
+			let addedKeys: string[] = [];
+			for (let key in section) {
+				if (section.hasOwnProperty(key) && !target.hasOwnProperty(key)) {
+					target[key] = section[key];
+					addedKeys.push(key);
+					mergedKeywords.push({ target, keyword: key, source: section });
+					// the target belongs to one of the documents loaded so far
+					documents.forEach(document => document.schema.addMergedKeyword(target, key));
+				}
 			}
+			return addedKeys;
+		};
 
-			let toWalk: JSONSchema[] = [node];
-			let seen: JSONSchema[] = [];
-
+		/**
+		 * Resolves the references in the given schema and its subschemas. `nodeBaseURI` is the base URI of the schema itself.
+		 */
+		let resolveRefs = (node: JSONSchema, nodeBaseURI: string): Thenable<any> => {
+			let toWalk: { schema: JSONSchema, baseURI: string }[] = [];
 			let openPromises: Thenable<any>[] = [];
 
-			let collectEntries = (...entries: JSONSchemaRef[]) => {
-				for (let entry of entries) {
-					if (typeof entry === 'object') {
-						toWalk.push(entry);
-					}
+			let collectSubschemas = (next: JSONSchema, keys: string[], baseURI: string) => {
+				for (let subschema of getSubschemas(next, keys)) {
+					toWalk.push({ schema: subschema, baseURI: getBaseURI(subschema, baseURI) });
 				}
 			};
-			let collectMapEntries = (...maps: JSONSchemaMap[]) => {
-				for (let map of maps) {
-					if (typeof map === 'object') {
-						for (let key in map) {
-							let entry = map[key];
-							if (typeof entry === 'object') {
-								toWalk.push(entry);
-							}
-						}
+			let handleRef = (next: JSONSchema, baseURI: string) => {
+				while (next.$ref || next.$dynamicRef) {
+					let isDynamic = !next.$ref;
+					let ref = isDynamic ? next.$dynamicRef : next.$ref;
+					if (isDynamic) {
+						delete next.$dynamicRef;
+					} else {
+						delete next.$ref;
 					}
-				}
-			};
-			let collectArrayEntries = (...arrays: JSONSchemaRef[][]) => {
-				for (let array of arrays) {
-					if (Array.isArray(array)) {
-						for (let entry of array) {
-							if (typeof entry === 'object') {
-								toWalk.push(entry);
+					let link = splitURI(resolveURI(ref, baseURI));
+					let resource = resources[link.uri];
+					if (!resource) {
+						openPromises.push(loadResource(link.uri, link.fragment).then(() => {
+							// continue with the loaded resource
+							if (isDynamic) {
+								next.$dynamicRef = ref;
+							} else {
+								next.$ref = ref;
 							}
+							return resolveRefs(next, baseURI);
+						}));
+						return;
+					}
+					let target = findTarget(resource, link.uri, link.fragment);
+					if (target && isDynamic && target.schema.$dynamicAnchor === link.fragment) {
+						// the dynamic scope is approximated by the schema being resolved: its dynamic anchor takes precedence
+						let outermost = resources[schemaURL];
+						if (outermost && outermost.dynamicAnchors[link.fragment]) {
+							target = { schema: outermost.dynamicAnchors[link.fragment], baseURI: schemaURL };
 						}
 					}
-				}
-			};
-			let handleRef = (next: JSONSchema) => {
-				while (next.$ref) {
-					let segments = next.$ref.split('#', 2);
-					delete next.$ref;
-					if (segments[0].length > 0) {
-						openPromises.push(resolveExternalLink(next, segments[0], segments[1], parentSchemaURL));
-						return;
-					} else {
-						merge(next, parentSchema, parentSchemaURL, segments[1]); // can set next.$ref again
+					if (!target) {
+						resolveErrors.push(localize('json.schema.invalidref', '$ref \'{0}\' in \'{1}\' can not be resolved.', link.fragment, link.uri));
+						continue;
 					}
+					// the merged keywords belong to the target and are resolved against its base URI; this can set next.$ref again
+					collectSubschemas(next, merge(next, target.schema), target.baseURI);
+					baseURI = target.baseURI;
 				}
-				
-				collectEntries(<JSONSchema>next.items, <JSONSchema>next.additionalProperties, next.not, next.contains, next.propertyNames);
-				collectMapEntries(next.definitions, next.properties, next.patternProperties, <JSONSchemaMap>next.dependencies);
-				collectArrayEntries(next.anyOf, next.allOf, next.oneOf, <JSONSchema[]>next.items);
+			};
+			let handleSchema = (next: JSONSchema, baseURI: string) => {
+				collectSubschemas(next, Object.keys(next), baseURI);
+				handleRef(next, baseURI);
 			};
 
+			if (seen.indexOf(node) === -1) {
+				seen.push(node);
+			}
+			handleSchema(node, nodeBaseURI);
 			while (toWalk.length) {
 				let next = toWalk.pop();
-				if (seen.indexOf(next) >= 0) {
+				if (seen.indexOf(next.schema) >= 0) {
 					continue;
 				}
-				seen.push(next);
-				handleRef(next);
+				seen.push(next.schema);
+				handleSchema(next.schema, next.baseURI);
 			}
 			return this.promise.all(openPromises);
 		};
 
-		return resolveRefs(schema, schema, schemaURL).then(_ => new ResolvedSchema(schema, resolveErrors));
+		indexResources(schema, schemaURL);
+		return resolveRefs(schema, getBaseURI(schema, schemaURL)).then(_ => new ResolvedSchema(schema, resolveErrors, documents, mergedKeywords));
+	}
+
+	public getSchemaForResource(resource: string, document: Parser.JSONDocument, token?: CancellationToken): Thenable<ResolvedSchema> {
+		// the schemas are shared by all requests and their loading can't be cancelled: a cancelled request gets no schema, but the schemas it started to load are still loaded
+		if (token && token.isCancellationRequested) {
+			return this.promise.resolve(null);
+		}
+		return this.findSchemaForResource(resource, document).then(schema => token && token.isCancellationRequested ? null : schema);
 	}
 
-	public getSchemaForResource(resource: string, document: Parser.JSONDocument): Thenable<ResolvedSchema> {
+	private findSchemaForResource(resource: string, document: Parser.JSONDocument): Thenable<ResolvedSchema> {
 
 		// first use $schema if present
 		if (document && document.root && document.root.type === 'object') {
@@ -540,3 +738,104 @@ function toDisplayString(url: string) {
 	}
 	return url;
 }
+
+interface SchemaResource {
+	schema: JSONSchema;
+	anchors: { [name: string]: JSONSchema };
+	dynamicAnchors: { [name: string]: JSONSchema };
+}
+
+const subschemaKeywords = ['items', 'additionalItems', 'additionalProperties', 'not', 'contains', 'propertyNames', 'if', 'then', 'else', 'unevaluatedItems', 'unevaluatedProperties', 'anyOf', 'allOf', 'oneOf', 'prefixItems'];
+const subschemaMapKeywords = ['definitions', '$defs', 'properties', 'patternProperties', 'dependencies', 'dependentSchemas'];
+
+/**
+ * Returns the subschemas of the given schema that are found in the given keywords.
+ */
+function getSubschemas(schema: JSONSchema, keywords: string[] = Object.keys(schema)): JSONSchema[] {
+	let result: JSONSchema[] = [];
+	let add = (entry: any) => {
+		if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+			result.push(entry);
+		}
+	};
+	for (let keyword of keywords) {
+		let value = (<any>schema)[keyword];
+		if (subschemaKeywords.indexOf(keyword) !== -1) {
+			if (Array.isArray(value)) {
+				value.forEach(add);
+			} else {
+				add(value);
+			}
+		} else if (subschemaMapKeywords.indexOf(keyword) !== -1 && value && typeof value === 'object') {
+			for (let key in value) {
+				add(value[key]);
+			}
+		}
+	}
+	return result;
+}
+
+/**
+ * Resolves a relative URI reference (without fragment) against a base URI as described in RFC 3986.
+ */
+function resolveRelativeURI(reference: string, baseURI: string): string {
+	let match = baseURI.match(/^([^:\/?#]+:)?(\/\/[^\/?#]*)?([^?#]*)/);
+	let scheme = match[1] || '', authority = match[2] || '', path = match[3];
+	if (reference.substr(0, 2) === '//') {
+		return scheme + reference;
+	}
+	if (reference[0] === '?') {
+		return scheme + authority + path + reference;
+	}
+	let merged = reference[0] === '/' ? reference : (authority && !path ? '/' : path.substr(0, path.lastIndexOf('/') + 1)) + reference;
+	let queryIndex = merged.indexOf('?');
+	let query = queryIndex !== -1 ? merged.substr(queryIndex) : '';
+	let segments: string[] = [];
+	let input = (queryIndex !== -1 ? merged.substr(0, queryIndex) : merged).split('/');
+	input.forEach((segment, i) => {
+		if (segment === '..') {
+			if (segments.length > 1) {
+				segments.pop();
+			}
+		} else if (segment !== '.') {
+			segments.push(segment);
+		}
+		if ((segment === '.' || segment === '..') && i === input.length - 1) {
+			segments.push('');
+		}
+	});
+	return scheme + authority + segments.join('/') + query;
+}
+
+interface SchemaPointers {
+	schemas: JSONSchema[];
+	pointers: string[];
+}
+
+/**
+ * Computes the JSON pointers of all subschemas of the given schema, without following the keywords that `isMerged` excludes.
+ * Subschemas that are reachable on several paths get the pointer of the first path found.
+ */
+function collectSchemaPointers(root: JSONSchema, isMerged: (node: JSONSchema, keyword: string) => boolean): SchemaPointers {
+	let result: SchemaPointers = { schemas: [], pointers: [] };
+	// schemas from documents are trees: only schemas contributed as objects can share subschemas or have cycles
+	let ancestors: any[] = [];
+	let collect = (node: any, path: string[]) => {
+		if (!node || typeof node !== 'object' || ancestors.indexOf(node) !== -1) {
+			return;
+		}
+		if (!Array.isArray(node)) {
+			result.schemas.push(node);
+			result.pointers.push(formatJSONPointer(path));
+		}
+		ancestors.push(node);
+		for (let key in node) {
+			if (Array.isArray(node) || !isMerged(node, key)) {
+				collect(node[key], path.concat(key));
+			}
+		}
+		ancestors.pop();
+	};
+	collect(root, []);
+	return result;
+}
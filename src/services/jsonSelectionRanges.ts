@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { TextDocument, Position, Range } from 'vscode-languageserver-types';
+import { SelectionRange } from '../jsonLanguageService';
+import { JSONDocument } from '../parser/jsonParser';
+
+export function getSelectionRanges(document: TextDocument, positions: Position[], doc: JSONDocument): SelectionRange[] {
+
+	function getSelectionRange(position: Position): SelectionRange {
+		let offset = document.offsetAt(position);
+		let node = doc.getNodeFromOffsetEndInclusive(offset);
+		let result: Range[] = [];
+		let addRange = (start: number, end: number) => {
+			let last = result[result.length - 1];
+			if (!last || document.offsetAt(last.start) !== start || document.offsetAt(last.end) !== end) {
+				result.push(Range.create(document.positionAt(start), document.positionAt(end)));
+			}
+		};
+		while (node) {
+			switch (node.type) {
+				case 'string':
+				case 'object':
+				case 'array': {
+					// the content without the quotes, brackets or braces
+					let contentStart = node.start + 1, contentEnd = node.end - 1;
+					if (contentStart < contentEnd && offset >= contentStart && offset <= contentEnd) {
+						addRange(contentStart, contentEnd);
+					}
+					addRange(node.start, node.end);
+					break;
+				}
+				case 'number':
+				case 'boolean':
+				case 'null':
+				case 'property':
+					addRange(node.start, node.end);
+					break;
+			}
+			node = node.parent;
+		}
+		let current: SelectionRange = void 0;
+		for (let i = result.length - 1; i >= 0; i--) {
+			current = { range: result[i], parent: current };
+		}
+		if (!current) {
+			current = { range: Range.create(position, position) };
+		}
+		return current;
+	}
+
+	return positions.map(getSelectionRange);
+}
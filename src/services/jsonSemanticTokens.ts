@@ -0,0 +1,179 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as Parser from '../parser/jsonParser';
+import { IJSONSchemaService, ResolvedSchema } from './jsonSchemaService';
+import { JSONSchema } from '../jsonSchema';
+import { PromiseConstructor, Thenable, CancellationToken, SemanticTokens, SemanticTokensLegend } from '../jsonLanguageService';
+
+import { TextDocument, Range } from 'vscode-languageserver-types';
+
+const tokenTypes = ['property', 'keyword', 'string', 'number', 'boolean', 'null', 'comment'];
+
+// `declaration`: the key of a property that a matching schema declares in `properties` or `patternProperties`
+// `additional`: the key of a property that falls under `additionalProperties` of the matching schemas
+const tokenModifiers = ['deprecated', 'declaration', 'additional'];
+
+enum TokenModifier {
+	Deprecated = 1, Declaration = 2, Additional = 4
+}
+
+interface Token {
+	offset: number;
+	length: number;
+	type: number;
+	modifiers: number;
+}
+
+export class JSONSemanticTokens {
+
+	private schemaService: IJSONSchemaService;
+	private promise: PromiseConstructor;
+
+	constructor(schemaService: IJSONSchemaService, promiseConstructor: PromiseConstructor) {
+		this.schemaService = schemaService;
+		this.promise = promiseConstructor || Promise;
+	}
+
+	public getLegend(): SemanticTokensLegend {
+		return { tokenTypes: tokenTypes.slice(0), tokenModifiers: tokenModifiers.slice(0) };
+	}
+
+	public getSemanticTokens(document: TextDocument, doc: Parser.JSONDocument, range?: Range, token?: CancellationToken): Thenable<SemanticTokens> {
+		if (!doc.root && !doc.comments.length) {
+			return this.promise.resolve({ data: [] });
+		}
+		return this.schemaService.getSchemaForResource(document.uri, doc, token).then(schema => {
+			let keyModifiers = getKeyModifiers(doc, schema, token);
+			if (token && token.isCancellationRequested) {
+				return { data: [] };
+			}
+			let text = document.getText();
+			let start = range ? document.offsetAt(range.start) : 0, end = range ? document.offsetAt(range.end) : text.length;
+			let isInRange = (r: Parser.IRange) => r.start < end && r.end > start;
+
+			let tokens: Token[] = [];
+			let addToken = (r: Parser.IRange, type: string, modifiers = 0) => {
+				// tokens can't span multiple lines: multi-line comments get a token per line
+				let lineStart = r.start;
+				let lineBreak = /\r\n|\r|\n/g;
+				lineBreak.lastIndex = r.start;
+				let match: RegExpExecArray;
+				while ((match = lineBreak.exec(text)) && match.index < r.end) {
+					if (match.index > lineStart) {
+						tokens.push({ offset: lineStart, length: match.index - lineStart, type: tokenTypes.indexOf(type), modifiers });
+					}
+					lineStart = match.index + match[0].length;
+				}
+				if (r.end > lineStart) {
+					tokens.push({ offset: lineStart, length: r.end - lineStart, type: tokenTypes.indexOf(type), modifiers });
+				}
+			};
+
+			let collect = (node: Parser.ASTNode) => {
+				if (!node || !isInRange(node)) {
+					return;
+				}
+				switch (node.type) {
+					case 'object':
+						(<Parser.ObjectASTNode>node).properties.forEach(collect);
+						break;
+					case 'array':
+						(<Parser.ArrayASTNode>node).items.forEach(collect);
+						break;
+					case 'property': {
+						let property = <Parser.PropertyASTNode>node;
+						let key = property.key.value;
+						addToken(property.key, key === '$ref' || key === '$schema' ? 'keyword' : 'property', keyModifiers[property.key.start]);
+						collect(property.value);
+						break;
+					}
+					default:
+						addToken(node, node.type);
+				}
+			};
+			collect(doc.root);
+			doc.comments.filter(isInRange).forEach(comment => addToken(comment, 'comment'));
+
+			tokens.sort((t1, t2) => t1.offset - t2.offset);
+			return { data: encodeTokens(document, tokens) };
+		});
+	}
+}
+
+/**
+ * Returns the modifiers of the property keys, by the start offset of the keys.
+ */
+function getKeyModifiers(doc: Parser.JSONDocument, schema: ResolvedSchema, token: CancellationToken): { [offset: number]: number } {
+	let result: { [offset: number]: number } = {};
+	// without the complete schema, the keys can't be classified
+	if (!schema || schema.errors.length || !doc.root) {
+		return result;
+	}
+	let additional: { [offset: number]: boolean } = {};
+	for (let s of doc.getMatchingSchemas(schema.schema, -1, null, token)) {
+		if (s.inverted || !s.node || typeof s.schema !== 'object') {
+			continue;
+		}
+		if (s.node.type === 'object') {
+			for (let property of (<Parser.ObjectASTNode>s.node).properties) {
+				let offset = property.key.start;
+				if (isDeclared(s.schema, property.key.value)) {
+					result[offset] |= TokenModifier.Declaration;
+				} else {
+					additional[offset] = true;
+				}
+			}
+		}
+		let parent = s.node.parent;
+		if (s.schema.deprecationMessage && parent && parent.type === 'property' && (<Parser.PropertyASTNode>parent).value === s.node) {
+			let offset = (<Parser.PropertyASTNode>parent).key.start;
+			result[offset] |= TokenModifier.Deprecated;
+		}
+	}
+	for (let offset in additional) {
+		// a key that one of the matching schemas declares is not additional
+		if (!(result[offset] & TokenModifier.Declaration)) {
+			result[offset] |= TokenModifier.Additional;
+		}
+	}
+	return result;
+}
+
+function isDeclared(schema: JSONSchema, key: string): boolean {
+	if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+		return true;
+	}
+	if (schema.patternProperties) {
+		for (let pattern of Object.keys(schema.patternProperties)) {
+			try {
+				if (new RegExp(pattern).test(key)) {
+					return true;
+				}
+			} catch (e) {
+				// invalid patterns are reported by the validation
+			}
+		}
+	}
+	return false;
+}
+
+/**
+ * Encodes the tokens, sorted by offset, as in the LSP: five integers per token, the line and the start character relative to the
+ * previous token, the length, the token type and the modifiers.
+ */
+function encodeTokens(document: TextDocument, tokens: Token[]): number[] {
+	let data: number[] = [];
+	let line = 0, character = 0;
+	for (let token of tokens) {
+		let position = document.positionAt(token.offset);
+		let deltaLine = position.line - line;
+		data.push(deltaLine, deltaLine === 0 ? position.character - character : position.character, token.length, token.type, token.modifiers);
+		line = position.line;
+		character = position.character;
+	}
+	return data;
+}
@@ -4,12 +4,16 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
-import { JSONSchemaService } from './jsonSchemaService';
-import { JSONDocument, ObjectASTNode, IProblem, ProblemSeverity, ErrorCode } from '../parser/jsonParser';
-import { TextDocument, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
-import { PromiseConstructor, Thenable, LanguageSettings, DocumentLanguageSettings } from '../jsonLanguageService';
+import { JSONSchemaService, ResolvedSchema, SchemaSource } from './jsonSchemaService';
+import * as Parser from '../parser/jsonParser';
+import { JSONDocument, ObjectASTNode, IProblem, ProblemSeverity, ErrorCode, ValidationOptions } from '../parser/jsonParser';
+import { TextDocument, Diagnostic, DiagnosticSeverity, Location, Range } from 'vscode-languageserver-types';
+import { PromiseConstructor, Thenable, LanguageSettings, DocumentLanguageSettings, DiagnosticData, DiagnosticRelatedInformation, SeverityLevel, CancellationToken } from '../jsonLanguageService';
 import * as nls from 'vscode-nls';
-import { JSONSchemaRef } from '../jsonSchema';
+import { JSONSchema, JSONSchemaRef } from '../jsonSchema';
+import { parseJSONPointer } from '../utils/jsonPointer';
+import { validateSchemaDocument } from './jsonSchemaLint';
+import { findNodeAtPath } from './jsonDefinition';
 
 const localize = nls.loadMessageBundle();
 
@@ -20,28 +24,39 @@ export class JSONValidation {
 
 	private validationEnabled: boolean;
 	private commentSeverity: ProblemSeverity;
+	private validationOptions: ValidationOptions;
 
-	public constructor(jsonSchemaService: JSONSchemaService, promiseConstructor: PromiseConstructor) {
+	public constructor(jsonSchemaService: JSONSchemaService, promiseConstructor: PromiseConstructor, validators?: ValidationOptions) {
 		this.jsonSchemaService = jsonSchemaService;
 		this.promise = promiseConstructor;
 		this.validationEnabled = true;
+		this.validationOptions = {
+			formatValidators: validators && validators.formatValidators,
+			keywordValidators: validators && validators.keywordValidators
+		};
 	}
 
 	public configure(raw: LanguageSettings) {
 		if (raw) {
 			this.validationEnabled = raw.validate;
 			this.commentSeverity = raw.allowComments ? ProblemSeverity.Ignore : ProblemSeverity.Error;
+			this.validationOptions.formatAssertion = raw.formatAssertion !== false;
+			this.validationOptions.explainAlternatives = !!raw.explainAlternatives;
 		}
 	}
 
-	public doValidation(textDocument: TextDocument, jsonDocument: JSONDocument, documentSettings?: DocumentLanguageSettings): Thenable<Diagnostic[]> {
-		if (!this.validationEnabled) {
+	public doValidation(textDocument: TextDocument, jsonDocument: JSONDocument, documentSettings?: DocumentLanguageSettings, token?: CancellationToken): Thenable<Diagnostic[]> {
+		if (!this.validationEnabled || token && token.isCancellationRequested) {
 			return this.promise.resolve([]);
 		}
 		let diagnostics: Diagnostic[] = [];
 		let added: { [signature: string]: boolean } = {};
+		let documentSchema: ResolvedSchema = null;
+		let schemaDocuments: { [uri: string]: SchemaDocument } = {};
+		let severities = documentSettings && documentSettings.severities;
 		let addProblem = (problem: IProblem) => {
-			if (problem.severity === ProblemSeverity.Ignore) {
+			let problemSeverity = severities ? getSeverityOverride(problem, severities) || problem.severity : problem.severity;
+			if (problemSeverity === ProblemSeverity.Ignore) {
 				return;
 			}
 
@@ -53,29 +68,74 @@ export class JSONValidation {
 					start: textDocument.positionAt(problem.location.start),
 					end: textDocument.positionAt(problem.location.end)
 				};
-				let severity: DiagnosticSeverity = problem.severity === ProblemSeverity.Error ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning;
-				diagnostics.push({ severity, range, message: problem.message });
+				let severity: DiagnosticSeverity = problemSeverity === ProblemSeverity.Error ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning;
+				let diagnostic: Diagnostic & { data?: DiagnosticData, relatedInformation?: DiagnosticRelatedInformation[] } = { severity, range, message: problem.message };
+				if (problem.code) {
+					diagnostic.code = problem.code;
+				}
+				// the schema document and the location of the violated keyword in it
+				let source = problem.keyword && problem.schema && documentSchema ? documentSchema.getSource(problem.schema, problem.keyword) : null;
+				if (problem.keyword || problem.data) {
+					let data: DiagnosticData = {};
+					for (let key in problem.data) {
+						data[key] = problem.data[key];
+					}
+					if (problem.keyword) {
+						data.keyword = problem.keyword;
+						// the pointer addresses the subschema that has the keyword, also if the keyword was merged from a `$ref` target
+						let schemaSource = problem.schema && documentSchema ? documentSchema.getSource(problem.schema) : null;
+						if (schemaSource) {
+							data.schemaPointer = schemaSource.pointer + '/' + problem.keyword;
+						}
+					}
+					diagnostic.data = data;
+				}
+				if (source) {
+					let location = getSchemaLocation(source, problem.keyword, schemaDocuments);
+					if (location) {
+						diagnostic.relatedInformation = [{ location, message: localize('schemaKeywordLocation', 'Violated schema keyword "{0}"', problem.keyword) }];
+					}
+				}
+				diagnostics.push(diagnostic);
 			}
 		};
 
-		return this.jsonSchemaService.getSchemaForResource(textDocument.uri, jsonDocument).then(schema => {
+		return this.jsonSchemaService.getSchemaForResource(textDocument.uri, jsonDocument, token).then(schema => {
+			if (token && token.isCancellationRequested) {
+				return [];
+			}
+			documentSchema = schema;
 			let trailingCommaSeverity = documentSettings ? <ProblemSeverity>documentSettings.trailingCommas : ProblemSeverity.Error;
 			let commentSeverity = documentSettings ? <ProblemSeverity>documentSettings.comments : this.commentSeverity;
 
+			// the schema authoring problems go first: they are more specific than the meta-schema problems at the same location
+			let schemaDocumentProblems = validateSchemaDocument(jsonDocument);
+			schemaDocumentProblems.forEach(addProblem);
+
+			// invalid patterns are reported by the schema checks and by the `format: regex` of the meta-schemas: keep the first
+			let invalidPatterns: { [location: string]: boolean } = {};
+			schemaDocumentProblems.filter(p => p.code === ErrorCode.InvalidRegularExpression).forEach(p => {
+				invalidPatterns[p.location.start + ' ' + p.location.end] = true;
+			});
+			let isReportedInvalidPattern = (p: IProblem) => p.code === ErrorCode.FormatMismatch && p.schema && p.schema.format === 'regex' && invalidPatterns[p.location.start + ' ' + p.location.end];
+
 			if (schema) {
 				if (schema.errors.length && jsonDocument.root) {
 					let astRoot = jsonDocument.root;
 					let property = astRoot.type === 'object' ? (<ObjectASTNode>astRoot).getFirstProperty('$schema') : null;
 					if (property) {
 						let node = property.value || property;
-						addProblem({ location: { start: node.start, end: node.end }, message: schema.errors[0], severity: ProblemSeverity.Warning });
+						addProblem({ location: { start: node.start, end: node.end }, message: schema.errors[0], code: ErrorCode.SchemaResolveError, severity: ProblemSeverity.Warning });
 					} else {
-						addProblem({ location: { start: astRoot.start, end: astRoot.start + 1 }, message: schema.errors[0], severity: ProblemSeverity.Warning });
+						addProblem({ location: { start: astRoot.start, end: astRoot.start + 1 }, message: schema.errors[0], code: ErrorCode.SchemaResolveError, severity: ProblemSeverity.Warning });
 					}
 				} else {
-					let semanticErrors = jsonDocument.validate(schema.schema);
+					let semanticErrors = jsonDocument.validate(schema.schema, this.validationOptions, token);
+					if (token && token.isCancellationRequested) {
+						return [];
+					}
 					if (semanticErrors) {
-						semanticErrors.forEach(addProblem);
+						semanticErrors.filter(p => !isReportedInvalidPattern(p)).forEach(addProblem);
 					}
 				}
 				if (schemaAllowsComments(schema.schema)) {
@@ -93,7 +153,7 @@ export class JSONValidation {
 			if (commentSeverity !== ProblemSeverity.Ignore) {
 				let message = localize('InvalidCommentToken', 'Comments are not permitted in JSON.');
 				jsonDocument.comments.forEach(c => {
-					addProblem({ location: c, severity: commentSeverity, message });
+					addProblem({ location: c, severity: commentSeverity, code: ErrorCode.CommentNotPermitted, message });
 				});
 			}
 			return diagnostics;
@@ -101,6 +161,52 @@ export class JSONValidation {
 	}
 }
 
+interface SchemaDocument {
+	document: TextDocument;
+	root: Parser.TypedASTNode;
+}
+
+/**
+ * Finds the keyword of a subschema in the text of the schema document it comes from. Returns null for schemas
+ * that were not loaded from a document, e.g. schemas contributed as objects in the settings.
+ */
+function getSchemaLocation(source: SchemaSource, keyword: string, schemaDocuments: { [uri: string]: SchemaDocument }): Location {
+	if (typeof source.content !== 'string') {
+		return null;
+	}
+	let schemaDocument = schemaDocuments[source.uri];
+	if (!schemaDocument) {
+		let document = TextDocument.create(source.uri, 'json', 0, source.content);
+		schemaDocument = schemaDocuments[source.uri] = { document, root: Parser.parse(document).root };
+	}
+	let node = findNodeAtPath(schemaDocument.root, parseJSONPointer(source.pointer));
+	if (!node) {
+		return null;
+	}
+	if (node.type === 'object') {
+		let property = (<ObjectASTNode>node).getFirstProperty(keyword);
+		if (property) {
+			node = property;
+		}
+	}
+	let document = schemaDocument.document;
+	return Location.create(source.uri, Range.create(document.positionAt(node.start), document.positionAt(node.end)));
+}
+
+function getSeverityOverride(problem: IProblem, severities: { [codeOrKeyword: string]: SeverityLevel }): ProblemSeverity {
+	let codeName = typeof problem.code === 'number' ? ErrorCode[problem.code] : null;
+	if (codeName) {
+		let key = codeName.charAt(0).toLowerCase() + codeName.substr(1);
+		if (severities.hasOwnProperty(key)) {
+			return <ProblemSeverity>severities[key];
+		}
+	}
+	if (problem.keyword && severities.hasOwnProperty(problem.keyword)) {
+		return <ProblemSeverity>severities[problem.keyword];
+	}
+	return null;
+}
+
 function schemaAllowsComments(schemaRef: JSONSchemaRef) {
 	if (schemaRef && typeof schemaRef === 'object') {
 		if (schemaRef.allowComments) {
@@ -111,4 +217,4 @@ function schemaAllowsComments(schemaRef: JSONSchemaRef) {
 		}
 	}
 	return false;
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import * as JsonSchema from '../jsonSchema';
+import { TextDocument, Range, TextEdit } from 'vscode-languageserver-types';
+import { getLanguageService, Thenable, ErrorCode, CodeActionKind } from '../jsonLanguageService';
+
+suite('JSON Code Actions', () => {
+
+	let schemaRequestService = function (uri: string): Promise<string> {
+		return Promise.reject<string>('Resource not found');
+	};
+
+	function applyEdits(document: TextDocument, edits: TextEdit[]): string {
+		let text = document.getText();
+		edits.slice(0).sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start)).forEach(e => {
+			text = text.substring(0, document.offsetAt(e.range.start)) + e.newText + text.substring(document.offsetAt(e.range.end));
+		});
+		return text;
+	}
+
+	function assertCodeActions(value: string, schema: JsonSchema.JSONSchema, code: ErrorCode, expected: { title: string, result: string }[]): Thenable<void> {
+		let uri = 'test://test.json';
+		let ls = getLanguageService({ schemaRequestService });
+		if (schema) {
+			ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		}
+		let document = TextDocument.create(uri, 'json', 0, value);
+		let jsonDoc = ls.parseJSONDocument(document);
+		return ls.doValidation(document, jsonDoc).then(diagnostics => {
+			diagnostics = diagnostics.filter(d => d.code === code);
+			let range = Range.create(document.positionAt(0), document.positionAt(value.length));
+			return ls.getCodeActions(document, range, diagnostics, jsonDoc).then(actions => {
+				let actual = actions.map(a => {
+					assert.equal(a.kind, CodeActionKind.QuickFix);
+					assert.equal(a.diagnostics.length, 1);
+					return { title: a.title, result: applyEdits(document, a.edit.changes[uri]) };
+				});
+				assert.deepEqual(actual, expected);
+			});
+		});
+	}
+
+	test('Add missing required property', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			required: ['name', 'count', 'enabled'],
+			properties: {
+				name: { type: 'string', default: 'foo' },
+				count: { type: 'integer' },
+				enabled: { enum: [true] }
+			}
+		};
+		await assertCodeActions('{ "enabled": true }', schema, ErrorCode.MissingRequiredProperty, [
+			{ title: 'Add missing property "name"', result: '{ "enabled": true, "name": "foo" }' },
+			{ title: 'Add missing property "count"', result: '{ "enabled": true, "count": 0 }' }
+		]);
+		await assertCodeActions('{\n\t"count": 1,\n\t"enabled": true\n}', schema, ErrorCode.MissingRequiredProperty, [
+			{ title: 'Add missing property "name"', result: '{\n\t"count": 1,\n\t"enabled": true,\n\t"name": "foo"\n}' }
+		]);
+		await assertCodeActions('{}', schema, ErrorCode.MissingRequiredProperty, [
+			{ title: 'Add missing property "name"', result: '{"name": "foo"}' },
+			{ title: 'Add missing property "count"', result: '{"count": 0}' },
+			{ title: 'Add missing property "enabled"', result: '{"enabled": true}' }
+		]);
+	});
+
+	test('Remove property', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				other: false
+			},
+			additionalProperties: false
+		};
+		await assertCodeActions('{ "extra": 1, "name": "x" }', schema, ErrorCode.PropertyNotAllowed, [
+			{ title: 'Remove property "extra"', result: '{ "name": "x" }' }
+		]);
+		await assertCodeActions('{ "name": "x", "other": 1 }', schema, ErrorCode.PropertyNotAllowed, [
+			{ title: 'Remove property "other"', result: '{ "name": "x" }' }
+		]);
+	});
+
+	test('Replace enum value', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				level: { enum: ['error', 'warning', 'info'] },
+				size: { enum: [1, 10, 100] },
+				kind: { const: 'fixed' }
+			}
+		};
+		await assertCodeActions('{ "level": "warnig", "size": 12, "kind": "fix" }', schema, ErrorCode.EnumValueMismatch, [
+			{ title: 'Replace with "warning"', result: '{ "level": "warning", "size": 12, "kind": "fix" }' },
+			{ title: 'Replace with 10', result: '{ "level": "warnig", "size": 10, "kind": "fix" }' },
+			{ title: 'Replace with "fixed"', result: '{ "level": "warnig", "size": 12, "kind": "fixed" }' }
+		]);
+	});
+
+	test('Syntax fixes', async function () {
+		await assertCodeActions('{ "a": 1, }', null, ErrorCode.TrailingComma, [
+			{ title: 'Remove trailing comma', result: '{ "a": 1 }' }
+		]);
+		await assertCodeActions('[ 1, 2, ]', null, ErrorCode.TrailingComma, [
+			{ title: 'Remove trailing comma', result: '[ 1, 2 ]' }
+		]);
+		await assertCodeActions('{ "a": 1, "b": 2, "a": 3 }', null, ErrorCode.DuplicateKey, [
+			{ title: 'Remove duplicate property "a"', result: '{ "a": 1, "b": 2 }' },
+			{ title: 'Remove duplicate property "a"', result: '{ "b": 2, "a": 3 }' }
+		]);
+		await assertCodeActions('{ \'a\': 1 }', null, ErrorCode.PropertyKeysMustBeDoublequoted, [
+			{ title: 'Replace with "a"', result: '{ "a": 1 }' }
+		]);
+	});
+
+	test('Code actions with custom keyword validators', async function () {
+		// the custom keyword makes the second alternative the best match: its problem only exists with the validators
+		let ls = getLanguageService({ schemaRequestService, keywordValidators: { 'x-never': (node, value, problems) => problems.add('Never valid.') } });
+		let schema: JsonSchema.JSONSchema = {
+			anyOf: [
+				<JsonSchema.JSONSchema>{ 'x-never': true },
+				{ required: ['name'], properties: { a: { type: 'number' }, name: { type: 'string' } } }
+			]
+		};
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "a": 1 }');
+		let jsonDoc = ls.parseJSONDocument(document);
+		let diagnostics = await ls.doValidation(document, jsonDoc);
+		let actions = await ls.getCodeActions(document, Range.create(0, 0, 0, 10), diagnostics, jsonDoc);
+		assert.deepEqual(actions.map(a => a.title), ['Add missing property "name"']);
+	});
+
+	test('Code actions from the diagnostic data', async function () {
+		// the fixes only depend on the code and data of the diagnostics, e.g. of diagnostics sent to a client and back
+		let ls = getLanguageService({ schemaRequestService });
+		let schema: JsonSchema.JSONSchema = { properties: { color: { enum: ['red', 'green'] } } };
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "color": "gren" }');
+		let jsonDoc = ls.parseJSONDocument(document);
+		let diagnostics = JSON.parse(JSON.stringify(await ls.doValidation(document, jsonDoc)));
+		diagnostics[0].message = 'Changed by the client';
+		let actions = await ls.getCodeActions(document, Range.create(0, 0, 0, 19), diagnostics, jsonDoc);
+		assert.deepEqual(actions.map(a => a.title), ['Replace with "green"']);
+		assert.deepEqual(actions[0].diagnostics, [diagnostics[0]]);
+	});
+
+	test('No code actions outside of range', async function () {
+		let ls = getLanguageService({ schemaRequestService });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "a": 1, }\n[]');
+		let jsonDoc = ls.parseJSONDocument(document);
+		let diagnostics = await ls.doValidation(document, jsonDoc);
+		let actions = await ls.getCodeActions(document, Range.create(1, 0, 1, 2), diagnostics, jsonDoc);
+		assert.deepEqual(actions, []);
+	});
+});
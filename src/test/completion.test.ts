@@ -650,11 +650,11 @@ suite('JSON Completion', () => {
 			]
 		});
 		await testCompletionsFor('{ "type": "1", "a" : { "x": "", "z":"" }, |', schema, {
-			// both alternatives have errors: intellisense proposes all options
-			count: 2,
+			// both alternatives have errors: the value of 'type' selects the alternative
+			count: 1,
 			items: [
 				{ label: 'b' },
-				{ label: 'c' }
+				{ label: 'c', notAvailable: true }
 			]
 		});
 		await testCompletionsFor('{ "a" : { "x": "", "z":"" }, |', schema, {
@@ -995,4 +995,106 @@ suite('JSON Completion', () => {
 			]
 		});
 	});
-});
\ No newline at end of file
+
+	test('Complete with if/then/else', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				kind: { enum: ['file', 'url'] }
+			},
+			if: { properties: { kind: { const: 'file' } } },
+			then: { properties: { path: { type: 'string' } } },
+			else: { properties: { url: { type: 'string' } } }
+		};
+		await testCompletionsFor('{ "kind": "file", | }', schema, {
+			items: [
+				{ label: 'path', resultText: '{ "kind": "file", "path": "$1" }' },
+				{ label: 'url', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ "kind": "url", | }', schema, {
+			items: [
+				{ label: 'path', notAvailable: true },
+				{ label: 'url', resultText: '{ "kind": "url", "url": "$1" }' }
+			]
+		});
+	});
+
+	test('Complete with discriminator', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			oneOf: [
+				{ properties: { kind: { enum: ['file'] }, path: { type: 'string' } } },
+				{ properties: { kind: { enum: ['url'] }, url: { type: 'string' } } }
+			]
+		};
+		await testCompletionsFor('{ "kind": "url", | }', schema, {
+			items: [
+				{ label: 'url' },
+				{ label: 'path', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ | }', schema, {
+			items: [
+				{ label: 'url' },
+				{ label: 'path' }
+			]
+		});
+		// the discriminator value itself can be changed to the value of any alternative
+		await testCompletionsFor('{ "kind": |"url" }', schema, {
+			items: [
+				{ label: '"url"' },
+				{ label: '"file"' }
+			]
+		});
+	});
+
+	test('Complete with bundled meta-schemas', async function () {
+		await testCompletionsFor('{ "$schema": "http://json-schema.org/draft-04/schema#", | }', null, {
+			items: [
+				{ label: 'id', documentation: 'A unique identifier for the schema.' },
+				{ label: 'exclusiveMaximum', documentation: 'Makes the maximum property exclusive.' },
+				{ label: '$id', notAvailable: true },
+				{ label: 'if', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ "$schema": "http://json-schema.org/draft-06/schema#", | }', null, {
+			items: [
+				{ label: '$id' },
+				{ label: 'const', documentation: 'The only value that is valid.' },
+				{ label: 'if', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ "$schema": "http://json-schema.org/draft-07/schema#", | }', null, {
+			items: [
+				{ label: 'if' },
+				{ label: '$comment', documentation: 'Comments for schema maintainers. Not used for validation or shown to users.' },
+				{ label: 'exclusiveMaximum', documentation: 'The maximum numerical value, exclusive.' },
+				{ label: '$defs', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ "$schema": "https://json-schema.org/draft/2019-09/schema", | }', null, {
+			items: [
+				{ label: '$defs' },
+				{ label: '$recursiveRef' },
+				{ label: 'dependentRequired' },
+				{ label: 'prefixItems', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ "$schema": "https://json-schema.org/draft/2020-12/schema", "properties": { "a": { | } } }', null, {
+			items: [
+				{ label: 'prefixItems' },
+				{ label: '$dynamicRef' },
+				{ label: 'items', documentation: 'For arrays. A schema to validate the items against that are not validated by \'prefixItems\'.' },
+				{ label: '$recursiveRef', notAvailable: true }
+			]
+		});
+		await testCompletionsFor('{ "$schema": "http://json-schema.org/draft-07/schema#", "type": "object", "format": | }', null, {
+			items: [
+				{ label: '"date"' },
+				{ label: '"relative-json-pointer"' },
+				{ label: '"uuid"', notAvailable: true }
+			]
+		});
+	});
+});
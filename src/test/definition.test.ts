@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import * as url from 'url';
+import { TextDocument, Location, Range } from 'vscode-languageserver-types';
+import { getLanguageService, Thenable } from '../jsonLanguageService';
+
+suite('JSON Find Definition', () => {
+
+	let otherSchema = '{\n  "definitions": {\n    "x": { "type": "string" },\n    "a/b": {}\n  }\n}';
+
+	let schemaRequestService = function (uri: string): Promise<string> {
+		if (uri === 'http://myschemastore/other.json') {
+			return Promise.resolve(otherSchema);
+		}
+		return Promise.reject<string>('Resource not found');
+	};
+
+	let workspaceContext = {
+		resolveRelativePath: (relativePath: string, resource: string) => {
+			return url.resolve(resource, relativePath);
+		}
+	};
+
+	function testFindDefinitionFor(value: string, expected: Location[]): Thenable<void> {
+		let offset = value.indexOf('|');
+		value = value.substr(0, offset) + value.substr(offset + 1);
+
+		let ls = getLanguageService({ schemaRequestService, workspaceContext });
+		let document = TextDocument.create('http://myschemastore/main.json', 'json', 0, value);
+		let jsonDoc = ls.parseJSONDocument(document);
+		return ls.findDefinition(document, document.positionAt(offset), jsonDoc).then(locations => {
+			assert.deepEqual(locations, expected);
+		});
+	}
+
+	test('Local $ref', async function () {
+		let content = '{ "properties": { "a": { "$ref": "#/definitions/f|oo" } }, "definitions": { "foo": { "type": "string" } } }';
+		let start = content.indexOf('{ "type"') - 1;
+		await testFindDefinitionFor(content, [Location.create('http://myschemastore/main.json', Range.create(0, start, 0, start + 20))]);
+
+		await testFindDefinitionFor('{ "$ref": "|#" }', [Location.create('http://myschemastore/main.json', Range.create(0, 0, 0, 15))]);
+		await testFindDefinitionFor('{ "a": { "$ref": "#/definitions/|bar" } }', []);
+		await testFindDefinitionFor('{ "a": { "$ref": "#/|a" } }', [Location.create('http://myschemastore/main.json', Range.create(0, 7, 0, 24))]);
+	});
+
+	test('Not a $ref', async function () {
+		await testFindDefinitionFor('{ "$ref": 1|2 }', []);
+		await testFindDefinitionFor('{ "$r|ef": "#" }', []);
+		await testFindDefinitionFor('{ "foo": "#/f|oo", "$ref": "#" }', []);
+	});
+
+	test('Escaped $ref', async function () {
+		let content = '{ "a": { "$ref": "#/definitions/b~1c|" }, "definitions": { "b/c": true, "d~e f": false } }';
+		let start = content.indexOf('true') - 1;
+		await testFindDefinitionFor(content, [Location.create('http://myschemastore/main.json', Range.create(0, start, 0, start + 4))]);
+
+		content = '{ "a": { "$ref": "#/definitions/d~0e%20|f" }, "definitions": { "b/c": true, "d~e f": false } }';
+		start = content.indexOf('false') - 1;
+		await testFindDefinitionFor(content, [Location.create('http://myschemastore/main.json', Range.create(0, start, 0, start + 5))]);
+	});
+
+	test('External $ref', async function () {
+		await testFindDefinitionFor('{ "$ref": "other.json#/definitions/|x" }', [Location.create('http://myschemastore/other.json', Range.create(2, 9, 2, 29))]);
+		await testFindDefinitionFor('{ "$ref": "other.json#/definitions/a~1|b" }', [Location.create('http://myschemastore/other.json', Range.create(3, 11, 3, 13))]);
+		await testFindDefinitionFor('{ "$ref": "oth|er.json" }', [Location.create('http://myschemastore/other.json', Range.create(0, 0, 5, 1))]);
+		await testFindDefinitionFor('{ "$ref": "unkn|own.json#/definitions/x" }', [Location.create('http://myschemastore/unknown.json', Range.create(0, 0, 0, 0))]);
+	});
+});
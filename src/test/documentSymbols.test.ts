@@ -10,7 +10,7 @@ import { JSONCompletion } from '../services/jsonCompletion';
 import { JSONDocumentSymbols } from '../services/jsonDocumentSymbols';
 
 import { SymbolInformation, SymbolKind, TextDocumentIdentifier, TextDocument, Range, Position, TextEdit } from 'vscode-languageserver-types';
-import { Thenable, Color, getLanguageService } from "../jsonLanguageService";
+import { Thenable, Color, getLanguageService, DocumentSymbol, DocumentSymbolsContext } from "../jsonLanguageService";
 import { colorFrom256RGB } from '../utils/colors';
 
 suite('JSON Document Symbols', () => {
@@ -57,6 +57,40 @@ suite('JSON Document Symbols', () => {
 		assert.deepEqual(result.map(r => r.textEdit), expected.map(l => TextEdit.replace(range, JSON.stringify(l))));
 	}
 
+	interface ExpectedSymbol {
+		name: string;
+		kind: SymbolKind;
+		detail?: string;
+		range?: string;
+		selection?: string;
+		children?: ExpectedSymbol[];
+	}
+
+	function assertHierarchicalOutline(value: string, schema: JsonSchema.JSONSchema, expected: ExpectedSymbol[], context?: DocumentSymbolsContext): Thenable<void> {
+		let uri = 'test://test.json';
+		let ls = getLanguageService({ schemaRequestService });
+		if (schema) {
+			ls.configure({ schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		}
+		let document = TextDocument.create(uri, 'json', 0, value);
+		let jsonDoc = ls.parseJSONDocument(document);
+		let toExpected = (symbol: DocumentSymbol): ExpectedSymbol => {
+			let result: ExpectedSymbol = { name: symbol.name, kind: symbol.kind };
+			if (symbol.detail !== void 0) {
+				result.detail = symbol.detail;
+			}
+			result.range = document.getText().substring(document.offsetAt(symbol.range.start), document.offsetAt(symbol.range.end));
+			result.selection = document.getText().substring(document.offsetAt(symbol.selectionRange.start), document.offsetAt(symbol.selectionRange.end));
+			if (symbol.children) {
+				result.children = symbol.children.map(toExpected);
+			}
+			return result;
+		};
+		return ls.findDocumentSymbols2(document, jsonDoc, context).then(symbols => {
+			assert.deepEqual(symbols.map(toExpected), expected);
+		});
+	}
+
 	function assertOutline(value: string, expected: any[], message?: string) {
 		let actual = getOutline(value);
 
@@ -119,6 +153,104 @@ suite('JSON Document Symbols', () => {
 		assertOutline(content, expected);
 	});
 
+	test('Hierarchical outline', async function () {
+		await assertHierarchicalOutline('{ "a": { "b": 1, "c": [true, {}] }, "d": "foo", "e": null, "f": [] }', null, [
+			{
+				name: 'a', kind: SymbolKind.Module, range: '"a": { "b": 1, "c": [true, {}] }', selection: '"a"', children: [
+					{ name: 'b', kind: SymbolKind.Number, detail: '1', range: '"b": 1', selection: '"b"' },
+					{
+						name: 'c', kind: SymbolKind.Array, range: '"c": [true, {}]', selection: '"c"', children: [
+							{ name: '0', kind: SymbolKind.Boolean, detail: 'true', range: 'true', selection: 'true' },
+							{ name: '1', kind: SymbolKind.Module, detail: '{}', range: '{}', selection: '{}', children: [] }
+						]
+					}
+				]
+			},
+			{ name: 'd', kind: SymbolKind.String, detail: 'foo', range: '"d": "foo"', selection: '"d"' },
+			{ name: 'e', kind: SymbolKind.Variable, detail: 'null', range: '"e": null', selection: '"e"' },
+			{ name: 'f', kind: SymbolKind.Array, detail: '[]', range: '"f": []', selection: '"f"', children: [] }
+		]);
+		let long = new Array(61).join('x');
+		await assertHierarchicalOutline('[1, { "x": "' + long + '", "y": }]', null, [
+			{ name: '0', kind: SymbolKind.Number, detail: '1', range: '1', selection: '1' },
+			{
+				name: '1', kind: SymbolKind.Module, range: '{ "x": "' + long + '", "y": }', selection: '{ "x": "' + long + '", "y": }', children: [
+					{ name: 'x', kind: SymbolKind.String, detail: long.substr(0, 50) + '\u2026', range: '"x": "' + long + '"', selection: '"x"' }
+				]
+			}
+		]);
+	});
+
+	test('Hierarchical outline with label property', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				steps: {
+					type: 'array',
+					items: { type: 'object', labelProperty: 'name' }
+				}
+			}
+		};
+		await assertHierarchicalOutline('{ "steps": [{ "name": "build" }, { "run": "test" }, { "name": {} }] }', schema, [
+			{
+				name: 'steps', kind: SymbolKind.Array, range: '"steps": [{ "name": "build" }, { "run": "test" }, { "name": {} }]', selection: '"steps"', children: [
+					{
+						name: 'build', kind: SymbolKind.Module, range: '{ "name": "build" }', selection: '{ "name": "build" }', children: [
+							{ name: 'name', kind: SymbolKind.String, detail: 'build', range: '"name": "build"', selection: '"name"' }
+						]
+					},
+					{
+						name: '1', kind: SymbolKind.Module, range: '{ "run": "test" }', selection: '{ "run": "test" }', children: [
+							{ name: 'run', kind: SymbolKind.String, detail: 'test', range: '"run": "test"', selection: '"run"' }
+						]
+					},
+					{
+						name: '2', kind: SymbolKind.Module, range: '{ "name": {} }', selection: '{ "name": {} }', children: [
+							{ name: 'name', kind: SymbolKind.Module, detail: '{}', range: '"name": {}', selection: '"name"', children: [] }
+						]
+					}
+				]
+			}
+		]);
+
+		schema = {
+			type: 'object',
+			additionalProperties: { type: 'object', labelProperty: 'name' }
+		};
+		await assertHierarchicalOutline('{ "build": { "name": "Build app" }, "test": {} }', schema, [
+			{
+				name: 'build', kind: SymbolKind.Module, detail: 'Build app', range: '"build": { "name": "Build app" }', selection: '"build"', children: [
+					{ name: 'name', kind: SymbolKind.String, detail: 'Build app', range: '"name": "Build app"', selection: '"name"' }
+				]
+			},
+			{ name: 'test', kind: SymbolKind.Module, detail: '{}', range: '"test": {}', selection: '"test"', children: [] }
+		]);
+	});
+
+	test('Hierarchical outline with result limit', async function () {
+		let exceeded: string[] = [];
+		let context: DocumentSymbolsContext = { resultLimit: 3, onResultLimitExceeded: uri => exceeded.push(uri) };
+		await assertHierarchicalOutline('{ "a": { "b": 1 }, "c": [2], "d": 3 }', null, [
+			{ name: 'a', kind: SymbolKind.Module, range: '"a": { "b": 1 }', selection: '"a"', children: [] },
+			{ name: 'c', kind: SymbolKind.Array, range: '"c": [2]', selection: '"c"', children: [] },
+			{ name: 'd', kind: SymbolKind.Number, detail: '3', range: '"d": 3', selection: '"d"' }
+		], context);
+		assert.deepEqual(exceeded, ['test://test.json']);
+
+		exceeded = [];
+		context.resultLimit = 5;
+		await assertHierarchicalOutline('{ "a": { "b": 1 }, "c": [2], "d": 3 }', null, [
+			{ name: 'a', kind: SymbolKind.Module, range: '"a": { "b": 1 }', selection: '"a"', children: [
+				{ name: 'b', kind: SymbolKind.Number, detail: '1', range: '"b": 1', selection: '"b"' }
+			] },
+			{ name: 'c', kind: SymbolKind.Array, range: '"c": [2]', selection: '"c"', children: [
+				{ name: '0', kind: SymbolKind.Number, detail: '2', range: '2', selection: '2' }
+			] },
+			{ name: 'd', kind: SymbolKind.Number, detail: '3', range: '"d": 3', selection: '"d"' }
+		], context);
+		assert.deepEqual(exceeded, []);
+	});
+
 	test('Colors', async function () {
 		let content = '{ "a": "#FF00FF", "b": "#FF0000" }';
 		let schema: JsonSchema.JSONSchema = {
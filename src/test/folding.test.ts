@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-types';
+import { getFoldingRanges } from '../services/jsonFolding';
+
+interface ExpectedIndentRange {
+	startLine: number;
+	endLine: number;
+	kind?: string;
+}
+
+function assertRanges(lines: string[], expected: ExpectedIndentRange[], message?: string, nRanges?: number): void {
+	let document = TextDocument.create('test://foo/bar.json', 'json', 1, lines.join('\n'));
+	let actual = getFoldingRanges(document, { rangeLimit: nRanges });
+	assert.deepEqual(actual.map(r => ({ startLine: r.startLine, endLine: r.endLine, kind: r.kind })), expected.map(r => ({ startLine: r.startLine, endLine: r.endLine, kind: r.kind })), message);
+}
+
+function r(startLine: number, endLine: number, kind: string): ExpectedIndentRange {
+	return { startLine, endLine, kind };
+}
+
+suite('JSON Folding', () => {
+
+	test('Fold one level', () => {
+		let input = [
+			/*0*/'{',
+			/*1*/'"foo":"bar"',
+			/*2*/'}'
+		];
+		assertRanges(input, [r(0, 1, 'object')]);
+
+		input = [
+			/*0*/'[',
+			/*1*/'"foo",',
+			/*2*/'"bar"',
+			/*3*/']'
+		];
+		assertRanges(input, [r(0, 2, 'array')]);
+	});
+
+	test('Fold two level', () => {
+		let input = [
+			/*0*/'[',
+			/*1*/'{',
+			/*2*/'"foo": "bar"',
+			/*3*/'}',
+			/*4*/']'
+		];
+		assertRanges(input, [r(1, 2, 'object'), r(0, 3, 'array')]);
+	});
+
+	test('Fold no folding on single line or adjacent closing', () => {
+		assertRanges(['{ "foo": [1, 2] }'], []);
+		assertRanges(['{', '}'], []);
+	});
+
+	test('Fold arrays and objects starting on the same line', () => {
+		let input = [
+			/*0*/'{ "foo": [',
+			/*1*/'1,',
+			/*2*/'2',
+			/*3*/'],',
+			/*4*/'"bar": 3',
+			/*5*/'}'
+		];
+		assertRanges(input, [r(0, 2, 'array')]);
+	});
+
+	test('Fold comments', () => {
+		let input = [
+			/*0*/'/*',
+			/*1*/'  comment',
+			/*2*/'*/',
+			/*3*/'{',
+			/*4*/'"foo": 1',
+			/*5*/'}'
+		];
+		assertRanges(input, [r(0, 2, 'comment'), r(3, 4, 'object')]);
+	});
+
+	test('Fold regions', () => {
+		let input = [
+			/*0*/'{',
+			/*1*/'//#region',
+			/*2*/'"foo": 1,',
+			/*3*/'"bar": 2',
+			/*4*/'// #endregion',
+			/*5*/'}'
+		];
+		assertRanges(input, [r(1, 4, 'region'), r(0, 4, 'object')]);
+	});
+
+	test('Fold unterminated comment', () => {
+		let input = [
+			/*0*/'{',
+			/*1*/'/* comment',
+			/*2*/'"foo": 1',
+			/*3*/'}'
+		];
+		assertRanges(input, [r(0, 2, 'object')]);
+	});
+
+	test('Range limit', () => {
+		let input = [
+			/*0*/'[',
+			/*1*/'{',
+			/*2*/'"a": 1',
+			/*3*/'},',
+			/*4*/'{',
+			/*5*/'"b": 2',
+			/*6*/'}',
+			/*7*/']'
+		];
+		assertRanges(input, [r(1, 2, 'object'), r(4, 5, 'object'), r(0, 6, 'array')], 'no limit', undefined);
+		assertRanges(input, [r(1, 2, 'object'), r(4, 5, 'object'), r(0, 6, 'array')], 'limit 3', 3);
+		assertRanges(input, [r(1, 2, 'object'), r(0, 6, 'array')], 'limit 2', 2);
+		assertRanges(input, [r(0, 6, 'array')], 'limit 1', 1);
+		assertRanges(input, [], 'limit 0', 0);
+	});
+});
@@ -161,4 +161,34 @@ suite('JSON Hover', () => {
 			assert.deepEqual(result.contents, ['line1\n\nline2\r\n\r\nline3']);
 		});
 	});
-});
\ No newline at end of file
+
+	test('if/then/else', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				kind: { enum: ['file', 'url'] }
+			},
+			if: { properties: { kind: { const: 'file' } } },
+			then: { properties: { location: { description: 'The file path' } } },
+			else: { properties: { location: { description: 'The URL' } } }
+		};
+		await testComputeInfo('{ "kind": "file", "location": "a" }', schema, { line: 0, character: 20 }).then(result => {
+			assert.deepEqual(result.contents, [MarkedString.fromPlainText('The file path')]);
+		});
+		await testComputeInfo('{ "kind": "url", "location": "a" }', schema, { line: 0, character: 19 }).then(result => {
+			assert.deepEqual(result.contents, [MarkedString.fromPlainText('The URL')]);
+		});
+	});
+
+	test('Discriminator', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			oneOf: [
+				{ properties: { kind: { const: 'file' }, location: { description: 'The file path' } } },
+				{ properties: { kind: { const: 'url' }, location: { description: 'The URL' } } }
+			]
+		};
+		await testComputeInfo('{ "kind": "url", "location": "a" }', schema, { line: 0, character: 19 }).then(result => {
+			assert.deepEqual(result.contents, [MarkedString.fromPlainText('The URL')]);
+		});
+	});
+});
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import * as url from 'url';
+import * as JsonSchema from '../jsonSchema';
+import { TextDocument } from 'vscode-languageserver-types';
+import { getLanguageService, Thenable } from '../jsonLanguageService';
+
+suite('JSON Document Links', () => {
+
+	let schemaRequestService = function (uri: string): Promise<string> {
+		return Promise.reject<string>('Resource not found');
+	};
+
+	let workspaceContext = {
+		resolveRelativePath: (relativePath: string, resource: string) => {
+			return url.resolve(resource, relativePath);
+		}
+	};
+
+	function assertLinks(value: string, schema: JsonSchema.JSONSchema, expected: { text: string, target: string }[]): Thenable<void> {
+		let ls = getLanguageService({ schemaRequestService, workspaceContext });
+		if (schema) {
+			ls.configure({ schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		}
+		let document = TextDocument.create('http://test/folder/test.json', 'json', 0, value);
+		let jsonDoc = ls.parseJSONDocument(document);
+		return ls.findLinks(document, jsonDoc).then(links => {
+			let actual = links.map(l => ({ text: document.getText(l.range), target: l.target }));
+			assert.deepEqual(actual, expected);
+		});
+	}
+
+	test('$schema and $ref links', async function () {
+		await assertLinks('{ "$schema": "http://json-schema.org/draft-04/schema#" }', null, [
+			{ text: 'http://json-schema.org/draft-04/schema#', target: 'http://json-schema.org/draft-04/schema#' }
+		]);
+		await assertLinks('{ "$schema": "./schemas/my.json", "$ref": "other.json#/definitions/a" }', null, [
+			{ text: './schemas/my.json', target: 'http://test/folder/schemas/my.json' },
+			{ text: 'other.json#/definitions/a', target: 'http://test/folder/other.json#/definitions/a' }
+		]);
+		await assertLinks('{ "a": { "$ref": "#/definitions/b" },\n  "definitions": { "b": {} } }', null, [
+			{ text: '#/definitions/b', target: 'http://test/folder/test.json#2,25' }
+		]);
+		await assertLinks('{ "a": { "$ref": "#/definitions/c" }, "definitions": { "b": {} } }', null, []);
+	});
+
+	test('format uri links', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				'home': { type: 'string', format: 'uri' },
+				'icon': { type: 'string', format: 'uri-reference' },
+				'name': { type: 'string' }
+			}
+		};
+		await assertLinks('{ "home": "https://example.com/", "icon": "../images/icon.png", "name": "http://not.a.link" }', schema, [
+			{ text: 'https://example.com/', target: 'https://example.com/' },
+			{ text: '../images/icon.png', target: 'http://test/images/icon.png' }
+		]);
+		await assertLinks('{ "home": "", "icon": 1 }', schema, []);
+	});
+});
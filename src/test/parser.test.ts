@@ -8,7 +8,8 @@ import * as assert from 'assert';
 import * as Parser from '../parser/jsonParser';
 import * as SchemaService from '../services/jsonSchemaService';
 import * as JsonSchema from '../jsonSchema';
-import { TextDocument } from 'vscode-languageserver-types';
+import { TextDocument, TextDocumentContentChangeEvent, Range } from 'vscode-languageserver-types';
+import { getLanguageService, ASTNode } from '../jsonLanguageService';
 
 suite('JSON Parser', () => {
 
@@ -95,6 +96,103 @@ suite('JSON Parser', () => {
 		isInvalid('"\tabc"', Parser.ErrorCode.InvalidCharacter);
 	});
 
+	test('Standard formats', function () {
+		function assertFormat(format: string, valid: string[], invalid: { value: string, message?: string }[]) {
+			for (let value of valid) {
+				let semanticErrors = toDocument(JSON.stringify(value)).validate({ type: 'string', format });
+				assert.deepEqual(semanticErrors.map(e => e.message), [], format + ': ' + value);
+			}
+			for (let { value, message } of invalid) {
+				let semanticErrors = toDocument(JSON.stringify(value)).validate({ type: 'string', format });
+				assert.strictEqual(semanticErrors.length, 1, format + ': ' + value);
+				assert.strictEqual(semanticErrors[0].code, Parser.ErrorCode.FormatMismatch);
+				assert.deepEqual(semanticErrors[0].data, { format });
+				if (message) {
+					assert.strictEqual(semanticErrors[0].message, message);
+				}
+			}
+		}
+
+		assertFormat('date-time', ['2018-11-13T20:20:39+00:00', '2018-11-13t20:20:39.123z', '2016-12-31T23:59:60Z'], [
+			{ value: '2018-11-13', message: 'String is not a RFC 3339 date-time, e.g. "2018-11-13T20:20:39+00:00".' },
+			{ value: '2018-11-13T20:20:39' },
+			{ value: '2018-02-29T20:20:39Z', message: 'Day 29 is out of range. Use a day from 01 to 28.' },
+			{ value: '2018-11-13T24:00:00Z', message: 'Time 24:00:00 is out of range.' }
+		]);
+		assertFormat('date', ['2018-11-13', '2020-02-29', '2000-02-29'], [
+			{ value: '2018-1-13', message: 'String is not a RFC 3339 date. Use YYYY-MM-DD, e.g. "2018-11-13".' },
+			{ value: '2018-13-01', message: 'Month 13 is out of range. Use a month from 01 to 12.' },
+			{ value: '1900-02-29' },
+			{ value: '2018-04-31' }
+		]);
+		assertFormat('time', ['20:20:39Z', '08:30:06.283185+01:00'], [
+			{ value: '20:20:39' },
+			{ value: '20:60:00Z' },
+			{ value: '20:20:39+24:00', message: 'Time zone offset +24:00 is out of range.' }
+		]);
+		assertFormat('duration', ['P4DT12H30M5S', 'PT30M', 'P1Y', 'P2W'], [
+			{ value: 'P', message: 'String is not an ISO 8601 duration, e.g. "P3DT12H" or "PT30M".' },
+			{ value: 'P1DT' },
+			{ value: 'PT1D' },
+			{ value: 'P1W2D' }
+		]);
+		assertFormat('ipv4', ['192.168.0.1', '0.0.0.0', '255.255.255.255'], [
+			{ value: '256.1.1.1', message: 'String is not an IPv4 address in dotted-quad notation, e.g. "192.168.0.1".' },
+			{ value: '1.2.3' },
+			{ value: '01.2.3.4' }
+		]);
+		assertFormat('ipv6', ['::', '::1', '2001:db8::1', '1:2:3:4:5:6:7:8', '::ffff:192.168.0.1', 'fe80::'], [
+			{ value: '1:2:3:4:5:6:7:8:9', message: 'String is not an IPv6 address, e.g. "2001:db8::1".' },
+			{ value: '1::2::3' },
+			{ value: ':1:2:3:4:5:6:7' },
+			{ value: '12345::' },
+			{ value: '1:2:3:4:5:6:7::8' }
+		]);
+		assertFormat('hostname', ['example.com', 'localhost', 'a-b.c1'], [
+			{ value: '', message: 'Host name expected.' },
+			{ value: '-a.com', message: 'Host name label "-a" must only contain letters, digits and hyphens, and must not start or end with a hyphen.' },
+			{ value: 'a..com', message: 'Host name contains an empty label.' },
+			{ value: 'münchen.de' },
+			{ value: new Array(65).join('a') + '.com' }
+		]);
+		assertFormat('idn-hostname', ['münchen.de', '例え.テスト', 'example.com'], [
+			{ value: 'a_b.com' },
+			{ value: 'münchen-.de' }
+		]);
+		assertFormat('idn-email', ['foo@bar.com', 'θσερ@εχαμπλε.ψομ', 'a.b@[192.168.0.1]'], [
+			{ value: 'foo', message: 'String is not an e-mail address.' },
+			{ value: 'a..b@bar.com', message: 'String is not an e-mail address: the local part "a..b" is not valid.' },
+			{ value: 'foo@bar_baz.com' }
+		]);
+		assertFormat('uuid', ['123e4567-e89b-12d3-a456-426614174000'], [
+			{ value: '123e4567e89b12d3a456426614174000', message: 'String is not a UUID, e.g. "123e4567-e89b-12d3-a456-426614174000".' },
+			{ value: '123e4567-e89b-12d3-a456-42661417400g' }
+		]);
+		assertFormat('regex', ['^a+$', '[a-z]{2,}'], [
+			{ value: '(' },
+			{ value: '[a-' }
+		]);
+		assertFormat('json-pointer', ['', '/', '/a/b/0', '/a~0b/c~1d'], [
+			{ value: 'a/b', message: 'String is not a JSON pointer. Use an empty string or segments starting with "/", with "~" escaped as "~0" and "/" as "~1".' },
+			{ value: '/a~2' }
+		]);
+		assertFormat('relative-json-pointer', ['0', '1/name', '2#'], [
+			{ value: '/a' },
+			{ value: '01/a' },
+			{ value: '1#/a' }
+		]);
+		assertFormat('uri-template', ['https://example.com/users/{id}', '/search{?q,lang}', '{+path:6}/here', '{list*}'], [
+			{ value: 'https://example.com/{id', message: 'String is not a RFC 6570 URI template, e.g. "https://example.com/users/{id}".' },
+			{ value: '/{a b}' },
+			{ value: '/{}' }
+		]);
+		assertFormat('iri', ['https://例え.テスト/パス', 'urn:isbn:0451450523'], [
+			{ value: '/relative', message: 'String is not an IRI: IRI with a scheme is expected.' },
+			{ value: 'https://example.com/a b' },
+			{ value: 'https://example.com/%zz' }
+		]);
+	});
+
 	test('Numbers', function () {
 		isValid('[0, -1, 186.1, 0.123, -1.583e+4, 1.583E-4, 5e8]');
 
@@ -1632,4 +1730,422 @@ suite('JSON Parser', () => {
 		assert.strictEqual(semanticErrors[0].message, 'Value is not accepted. Valid values: "a", "b", "c", "d".');
 	});
 
+	test('problem codes and keywords', function () {
+		function assertProblem(json: string, schema: JsonSchema.JSONSchema, code: Parser.ErrorCode, keyword: string) {
+			let semanticErrors = toDocument(json).validate(schema);
+			assert.deepEqual(semanticErrors.map(e => ({ code: e.code, keyword: e.keyword })), [{ code, keyword }], json);
+		}
+		assertProblem('"a"', { type: 'number' }, Parser.ErrorCode.TypeMismatch, 'type');
+		assertProblem('"a"', { type: ['number', 'boolean'] }, Parser.ErrorCode.TypeMismatch, 'type');
+		assertProblem('"a"', { not: { type: 'string' } }, Parser.ErrorCode.NotSchemaMatch, 'not');
+		assertProblem('"a"', { oneOf: [{ type: 'string' }, { minLength: 1 }] }, Parser.ErrorCode.OneOfMultipleMatches, 'oneOf');
+		assertProblem('"a"', { enum: ['b'] }, Parser.ErrorCode.EnumValueMismatch, 'enum');
+		assertProblem('"a"', { const: 'b' }, Parser.ErrorCode.EnumValueMismatch, 'const');
+		assertProblem('{ "a": 1 }', { properties: { a: { deprecationMessage: 'old' } } }, Parser.ErrorCode.Deprecated, 'deprecationMessage');
+		assertProblem('[1, 2]', { items: [{}], additionalItems: false }, Parser.ErrorCode.AdditionalItemsNotAllowed, 'additionalItems');
+		assertProblem('[1, 2]', { contains: { type: 'string' } }, Parser.ErrorCode.ContainsMismatch, 'contains');
+		assertProblem('[1, 2]', { minItems: 3 }, Parser.ErrorCode.TooFewItems, 'minItems');
+		assertProblem('[1, 2]', { maxItems: 1 }, Parser.ErrorCode.TooManyItems, 'maxItems');
+		assertProblem('[1, 1]', { uniqueItems: true }, Parser.ErrorCode.DuplicateItems, 'uniqueItems');
+		assertProblem('3', { multipleOf: 2 }, Parser.ErrorCode.NotMultipleOf, 'multipleOf');
+		assertProblem('3', { exclusiveMinimum: 3 }, Parser.ErrorCode.BelowExclusiveMinimum, 'exclusiveMinimum');
+		assertProblem('3', { exclusiveMaximum: 3 }, Parser.ErrorCode.AboveExclusiveMaximum, 'exclusiveMaximum');
+		assertProblem('3', { minimum: 4 }, Parser.ErrorCode.BelowMinimum, 'minimum');
+		assertProblem('3', { maximum: 2 }, Parser.ErrorCode.AboveMaximum, 'maximum');
+		assertProblem('"a"', { minLength: 2 }, Parser.ErrorCode.StringTooShort, 'minLength');
+		assertProblem('"ab"', { maxLength: 1 }, Parser.ErrorCode.StringTooLong, 'maxLength');
+		assertProblem('"a"', { pattern: '^b' }, Parser.ErrorCode.PatternMismatch, 'pattern');
+		assertProblem('"a"', { format: 'email' }, Parser.ErrorCode.FormatMismatch, 'format');
+		assertProblem('{}', { required: ['a'] }, Parser.ErrorCode.MissingRequiredProperty, 'required');
+		assertProblem('{ "a": 1 }', { properties: { a: false } }, Parser.ErrorCode.PropertyNotAllowed, 'properties');
+		assertProblem('{ "a": 1 }', { patternProperties: { '^a': false } }, Parser.ErrorCode.PropertyNotAllowed, 'patternProperties');
+		assertProblem('{ "a": 1 }', { additionalProperties: false }, Parser.ErrorCode.PropertyNotAllowed, 'additionalProperties');
+		assertProblem('{ "a": 1 }', { minProperties: 2 }, Parser.ErrorCode.TooFewProperties, 'minProperties');
+		assertProblem('{ "a": 1, "b": 2 }', { maxProperties: 1 }, Parser.ErrorCode.TooManyProperties, 'maxProperties');
+		assertProblem('{ "a": 1 }', { dependencies: { a: ['b'] } }, Parser.ErrorCode.MissingDependentProperty, 'dependencies');
+	});
+
+	test('if/then/else', function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			if: {
+				properties: {
+					kind: { const: 'file' }
+				}
+			},
+			then: {
+				required: ['path']
+			},
+			else: {
+				properties: {
+					path: false
+				}
+			}
+		};
+		let doc = toDocument('{ "kind": "file", "path": "a" }');
+		assert.strictEqual(doc.validate(schema).length, 0);
+
+		doc = toDocument('{ "kind": "file" }');
+		let semanticErrors = doc.validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.code), [Parser.ErrorCode.MissingRequiredProperty]);
+
+		doc = toDocument('{ "kind": "folder", "path": "a" }');
+		semanticErrors = doc.validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.code), [Parser.ErrorCode.PropertyNotAllowed]);
+
+		doc = toDocument('{ "kind": "folder" }');
+		assert.strictEqual(doc.validate(schema).length, 0);
+
+		// the condition itself never reports problems
+		doc = toDocument('{ "kind": "file", "path": "a" }');
+		assert.strictEqual(doc.validate({ if: { required: ['other'] }, then: false }).length, 0);
+		assert.strictEqual(doc.validate({ if: { required: ['kind'] }, else: false }).length, 0);
+		assert.strictEqual(doc.validate({ if: { required: ['kind'] }, then: false }).length, 1);
+	});
+
+	test('if/then/else matching schemas', function () {
+		let thenSchema: JsonSchema.JSONSchema = { properties: { path: { type: 'string' } } };
+		let elseSchema: JsonSchema.JSONSchema = { properties: { url: { type: 'string' } } };
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			if: { properties: { kind: { const: 'file' } } },
+			then: thenSchema,
+			else: elseSchema
+		};
+		let matchingSchemas = toDocument('{ "kind": "file" }').getMatchingSchemas(schema);
+		assert.ok(matchingSchemas.some(s => s.schema === thenSchema));
+		assert.ok(!matchingSchemas.some(s => s.schema === elseSchema));
+
+		matchingSchemas = toDocument('{ "kind": "url" }').getMatchingSchemas(schema);
+		assert.ok(!matchingSchemas.some(s => s.schema === thenSchema));
+		assert.ok(matchingSchemas.some(s => s.schema === elseSchema));
+	});
+
+	test('discriminator', function () {
+		let cat: JsonSchema.JSONSchema = { properties: { kind: { const: 'cat' }, meow: { type: 'boolean' } }, required: ['kind', 'meow'] };
+		let dog: JsonSchema.JSONSchema = { allOf: [{ properties: { kind: { enum: ['dog', 'puppy'] } } }], properties: { bark: { type: 'number' } }, required: ['bark'] };
+		let schema: JsonSchema.JSONSchema = { oneOf: [cat, dog] };
+
+		// the alternative is selected by the value of the property that all alternatives restrict to distinct values
+		let semanticErrors = toDocument('{ "kind": "puppy", "meow": true }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => ({ code: e.code, property: e.data && e.data.property })), [
+			{ code: Parser.ErrorCode.MissingRequiredProperty, property: 'bark' }
+		]);
+		let matchingSchemas = toDocument('{ "kind": "cat" }').getMatchingSchemas(schema);
+		assert.ok(matchingSchemas.some(s => s.schema === cat));
+		assert.ok(!matchingSchemas.some(s => s.schema === dog));
+
+		// without a known discriminator value, the best matching alternative is used
+		semanticErrors = toDocument('{ "kind": "bird", "bark": 1 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.code), [Parser.ErrorCode.EnumValueMismatch]);
+
+		// an explicit discriminator also selects alternatives that do not restrict the other alternatives' values
+		schema = { discriminator: { propertyName: 'type' }, anyOf: [{ properties: { type: { const: 'a' } } }, { required: ['b'] }] };
+		assert.strictEqual(toDocument('{ "type": "a" }').validate(schema).length, 0);
+		schema = { anyOf: [{ properties: { type: { const: 'a' } } }, { required: ['b'] }] };
+		assert.strictEqual(toDocument('{ "type": "a" }').validate(schema).length, 0);
+
+		// the alternatives that the discriminator doesn't select are still validated
+		schema = { discriminator: { propertyName: 'type' }, oneOf: [{ properties: { type: { const: 'a' } } }, { required: ['b'] }] };
+		semanticErrors = toDocument('{ "type": "a", "b": 1 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.code), [Parser.ErrorCode.OneOfMultipleMatches]);
+		schema = { discriminator: { propertyName: 'type' }, anyOf: [{ properties: { type: { const: 'a' } }, required: ['x'] }, { required: ['b'] }] };
+		assert.strictEqual(toDocument('{ "type": "a", "b": 1 }').validate(schema).length, 0);
+		semanticErrors = toDocument('{ "type": "a" }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => ({ code: e.code, property: e.data && e.data.property })), [
+			{ code: Parser.ErrorCode.MissingRequiredProperty, property: 'x' }
+		]);
+	});
+
+	function serialize(node: Parser.ASTNode, parent: Parser.ASTNode): any {
+		if (!node) {
+			return null;
+		}
+		assert.strictEqual(node.parent, parent);
+		let children = node.getChildNodes();
+		return {
+			type: node.type, start: node.start, end: node.end, location: node.location,
+			value: children.length ? void 0 : node.getValue(), colonOffset: (<Parser.PropertyASTNode>node).colonOffset,
+			children: children.map(child => serialize(child, node))
+		};
+	}
+
+	// applies the edits, each one relative to the text after the previous ones, and compares the result with a full parse
+	function assertIncremental(jsonDoc: Parser.JSONDocument, text: string, edits: { offset: number, length: number, text: string }[]): Parser.JSONDocument {
+		let config = { collectComments: true };
+		let changes: TextDocumentContentChangeEvent[] = [];
+		for (let edit of edits) {
+			let document = TextDocument.create('foo://bar/file.json', 'json', 0, text);
+			changes.push({ range: Range.create(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length)), text: edit.text });
+			text = text.substring(0, edit.offset) + edit.text + text.substring(edit.offset + edit.length);
+		}
+		let textDocument = TextDocument.create('foo://bar/file.json', 'json', 1, text);
+		let actual = Parser.parseIncremental(textDocument, jsonDoc, changes, config);
+		let expected = Parser.parse(textDocument, config);
+		assert.deepEqual(serialize(actual.root, null), serialize(expected.root, null), text);
+		assert.deepEqual(actual.syntaxErrors, expected.syntaxErrors, text);
+		assert.deepEqual(actual.comments, expected.comments, text);
+		return actual;
+	}
+
+	test('incremental parse', function () {
+		let config = { collectComments: true };
+		let text = '{\n  "a": { "b": [1, 2, true], "c": "x" },\n  // comment\n  "d": [{ "e": null }, 12],\n  "f": /* g */ "h"\n}';
+		let jsonDoc = Parser.parse(TextDocument.create('foo://bar/file.json', 'json', 0, text), config);
+		let d = (<Parser.ObjectASTNode>jsonDoc.root).getFirstProperty('d').value;
+		let b = (<Parser.ObjectASTNode>(<Parser.ObjectASTNode>jsonDoc.root).getFirstProperty('a').value).getFirstProperty('b').value;
+
+		// the subtrees before and after the change are reused
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: text.indexOf('"x"') + 1, length: 1, text: 'xyz' }]);
+		assert.strictEqual((<Parser.ObjectASTNode>jsonDoc.root).getFirstProperty('d').value, d);
+		assert.strictEqual((<Parser.ObjectASTNode>(<Parser.ObjectASTNode>jsonDoc.root).getFirstProperty('a').value).getFirstProperty('b').value, b);
+		text = jsonDoc.text;
+
+		// inserted array items change the location of the following items
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: text.indexOf('{ "e"'), length: 0, text: '0, ' }]);
+		text = jsonDoc.text;
+		// a number before the change continues
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: text.indexOf('12') + 2, length: 0, text: '3' }]);
+		text = jsonDoc.text;
+		// syntax errors are added and removed again
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: text.indexOf('"c"'), length: 0, text: '"x" ' }]);
+		text = jsonDoc.text;
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: text.indexOf('"x" '), length: 4, text: '' }]);
+		text = jsonDoc.text;
+		// several changes, line breaks and comments
+		jsonDoc = assertIncremental(jsonDoc, text, [
+			{ offset: text.indexOf('// comment'), length: 10, text: '/* c1 */\r\n' },
+			{ offset: 1, length: 0, text: '\r\n  "z": 1,' },
+			{ offset: text.length + 11, length: 0, text: '\n' }
+		]);
+		text = jsonDoc.text;
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: text.indexOf('/* g */'), length: 7, text: '' }, { offset: 0, length: 1, text: '[' }]);
+		text = jsonDoc.text;
+		jsonDoc = assertIncremental(jsonDoc, text, [{ offset: 0, length: text.length, text: '' }]);
+		assert.strictEqual(jsonDoc.root, null);
+
+		// the nodes after the change are reused once and moved once
+		text = '{"a":{"b":{"c":1}},"d":[1,2,3]}';
+		jsonDoc = Parser.parse(TextDocument.create('foo://bar/file.json', 'json', 0, text), config);
+		assertIncremental(jsonDoc, text, [{ offset: 23, length: 0, text: '[0' }]);
+	});
+
+	test('incremental parse, same result as parse', function () {
+		let config = { collectComments: true };
+		let fragments = ['', ' ', '\n', ',', ':', '[', ']', '{', '}', '[0', '"', '"x"', '"k": ', '1', '-', 'true', 'nul', '/*', '*/', '// c\n'];
+
+		// every offset of a compact text, with an insertion or a replacement of up to two characters
+		let text = '{"a":{"b":{"c":1}},"d":[1,2,[3,4],{"e":[5]}],"f":[{"g":6},7]}';
+		let jsonDoc = Parser.parse(TextDocument.create('foo://bar/file.json', 'json', 0, text), config);
+		for (let offset = 0; offset <= text.length; offset++) {
+			for (let length = 0; length <= 2 && offset + length <= text.length; length++) {
+				for (let fragment of fragments) {
+					assertIncremental(jsonDoc, text, [{ offset, length, text: fragment }]);
+					// the previous document can't be used after an incremental parse
+					jsonDoc = Parser.parse(TextDocument.create('foo://bar/file.json', 'json', 0, text), config);
+				}
+			}
+		}
+
+		// sequences of edits, from a pseudo-random sequence with a fixed seed to reproduce failures
+		let seed = 42;
+		let random = (n: number) => {
+			seed = (seed * 1103515245 + 12345) % 2147483648;
+			return Math.floor(seed / 2147483648 * n);
+		};
+		let initial = '{\n  "a": { "b": [1, 2, true], "c": "x" },\n  // comment\n  "d": [{ "e": null }, 12, [3, [4]]],\n  "f": /* g */ "h"\n}';
+		for (let i = 0; i < 500; i++) {
+			if (i % 10 === 0) {
+				text = initial;
+				jsonDoc = Parser.parse(TextDocument.create('foo://bar/file.json', 'json', 0, text), config);
+			}
+			let edits: { offset: number, length: number, text: string }[] = [];
+			let editedText = text;
+			for (let count = random(3) + 1; count > 0; count--) {
+				let offset = random(editedText.length + 1);
+				let length = Math.min(random(4), editedText.length - offset);
+				let fragment = fragments[random(fragments.length)];
+				edits.push({ offset, length, text: fragment });
+				editedText = editedText.substring(0, offset) + fragment + editedText.substring(offset + length);
+			}
+			jsonDoc = assertIncremental(jsonDoc, text, edits);
+			text = jsonDoc.text;
+		}
+	});
+
+	test('incremental parse, cost independent of the document size', function () {
+		let config = { collectComments: true };
+		// the median time of edits before a large array: the array is taken over without visiting its nodes
+		let measure = (itemCount: number): number => {
+			let items: string[] = [];
+			for (let i = 0; i < itemCount; i++) {
+				items.push('{ "id": ' + i + ', "tags": ["a", { "b": null }] }');
+			}
+			let text = '{\n  "a": 1,\n  "items": [\n    ' + items.join(',\n    ') + '\n  ]\n}';
+			let jsonDoc = Parser.parse(TextDocument.create('foo://bar/file.json', 'json', 0, text), config);
+			let offset = text.indexOf('1');
+			let times: number[] = [];
+			for (let i = 0; i < 21; i++) {
+				// alternately insert and remove a digit: the offsets of the array move
+				let edit = i % 2 === 0 ? { offset, length: 0, text: '2' } : { offset, length: 1, text: '' };
+				let document = TextDocument.create('foo://bar/file.json', 'json', 0, text);
+				let changes = [{ range: Range.create(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length)), text: edit.text }];
+				text = text.substring(0, edit.offset) + edit.text + text.substring(edit.offset + edit.length);
+				let textDocument = TextDocument.create('foo://bar/file.json', 'json', 1, text);
+				// the line offsets of the text document are computed on the first use
+				textDocument.positionAt(0);
+				let start = process.hrtime();
+				jsonDoc = Parser.parseIncremental(textDocument, jsonDoc, changes, config);
+				let time = process.hrtime(start);
+				times.push(time[0] * 1e3 + time[1] / 1e6);
+			}
+			assertIncremental(jsonDoc, text, [{ offset, length: 0, text: '3' }]);
+			return times.sort((a, b) => a - b)[10];
+		};
+		let small = measure(30), large = measure(3000);
+		// a cost linear in the size of the document would be a hundred times higher
+		assert.ok(large < small * 10 + 0.5, 'small: ' + small + 'ms, large: ' + large + 'ms');
+	});
+
+	test('public AST', function () {
+		let text = '{ "a": [1, true, null], // c\n "b": { "c": "d" }, "e": }';
+		let jsonDoc = getLanguageService({}).parseJSONDocument(TextDocument.create('test://test.json', 'json', 0, text));
+
+		let root = jsonDoc.root;
+		assert.strictEqual(root.type, 'object');
+		assert.strictEqual(root.parent, null);
+		assert.deepEqual(jsonDoc.comments, [{ start: text.indexOf('//'), end: text.indexOf('\n') }]);
+		assert.deepEqual(jsonDoc.syntaxErrors.map(e => e.code), [Parser.ErrorCode.ValueExpected]);
+		if (root.type === 'object') {
+			assert.deepEqual(root.properties.map(p => p.keyNode.value), ['a', 'b', 'e']);
+			assert.strictEqual(root.properties[2].valueNode, null);
+			assert.strictEqual(root.children.length, 3);
+			let a = root.properties[0];
+			assert.strictEqual(a.colonOffset, text.indexOf(':'));
+			assert.deepEqual(a.children, [a.keyNode, a.valueNode]);
+			assert.strictEqual(a.keyNode.isKey, true);
+			assert.strictEqual(a.valueNode.parent, a);
+		}
+
+		let node = jsonDoc.getNodeFromOffset(text.indexOf('"d"'));
+		assert.strictEqual(node.type, 'string');
+		assert.deepEqual(node.getPath(), ['b', 'c']);
+		assert.deepEqual(node.getValue(), 'd');
+		assert.deepEqual(jsonDoc.getNodeFromOffset(text.indexOf('true')).getPath(), ['a', 1]);
+
+		let types: string[] = [];
+		jsonDoc.visit((n: ASTNode) => {
+			types.push(n.type);
+			return true;
+		});
+		assert.deepEqual(types, ['object', 'property', 'string', 'array', 'number', 'boolean', 'null', 'property', 'string', 'object', 'property', 'string', 'string', 'property', 'string']);
+
+		types = [];
+		root.visit(n => {
+			types.push(n.type);
+			return n.type !== 'array';
+		});
+		assert.deepEqual(types, ['object', 'property', 'string', 'array']);
+	});
+
+	test('dependentRequired and dependentSchemas', function () {
+		let schema: JsonSchema.JSONSchema = {
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			dependentRequired: { a: ['b'] },
+			dependentSchemas: { c: { required: ['d'] } },
+			dependencies: { e: ['f'] }
+		};
+		assert.strictEqual(toDocument('{ "a": 1, "b": 2, "c": 3, "d": 4, "e": 5 }').validate(schema).length, 0);
+		let semanticErrors = toDocument('{ "a": 1, "c": 3 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.keyword), ['dependentRequired', 'required']);
+
+		// draft-07 only knows 'dependencies'
+		schema.$schema = 'http://json-schema.org/draft-07/schema#';
+		semanticErrors = toDocument('{ "a": 1, "c": 3, "e": 5 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.keyword), ['dependencies']);
+	});
+
+	test('prefixItems and items', function () {
+		let schema: JsonSchema.JSONSchema = {
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			prefixItems: [{ type: 'string' }, { type: 'number' }],
+			items: false
+		};
+		assert.strictEqual(toDocument('["a", 1]').validate(schema).length, 0);
+		assert.deepEqual(toDocument('[1, 1]').validate(schema).map(e => e.code), [Parser.ErrorCode.TypeMismatch]);
+		assert.deepEqual(toDocument('["a", 1, 2]').validate(schema).map(e => ({ code: e.code, keyword: e.keyword })), [{ code: Parser.ErrorCode.AdditionalItemsNotAllowed, keyword: 'items' }]);
+
+		schema.items = { type: 'boolean' };
+		assert.strictEqual(toDocument('["a", 1, true, false]').validate(schema).length, 0);
+		assert.deepEqual(toDocument('["a", 1, true, 2]').validate(schema).map(e => e.code), [Parser.ErrorCode.TypeMismatch]);
+
+		// before 2020-12, an array in 'items' is the tuple and 'prefixItems' is unknown
+		schema = {
+			$schema: 'https://json-schema.org/draft/2019-09/schema',
+			prefixItems: [{ type: 'number' }],
+			items: [{ type: 'string' }],
+			additionalItems: false
+		};
+		assert.strictEqual(toDocument('["a"]').validate(schema).length, 0);
+		assert.deepEqual(toDocument('["a", 1]').validate(schema).map(e => e.keyword), ['additionalItems']);
+	});
+
+	test('minContains and maxContains', function () {
+		let schema: JsonSchema.JSONSchema = {
+			contains: { type: 'number' },
+			minContains: 2,
+			maxContains: 3
+		};
+		assert.strictEqual(toDocument('[1, "a", 2]').validate(schema).length, 0);
+		assert.deepEqual(toDocument('[1, "a"]').validate(schema).map(e => e.code), [Parser.ErrorCode.TooFewContainedItems]);
+		assert.deepEqual(toDocument('[1, 2, 3, 4]').validate(schema).map(e => e.code), [Parser.ErrorCode.TooManyContainedItems]);
+		schema.minContains = 0;
+		assert.strictEqual(toDocument('["a"]').validate(schema).length, 0);
+	});
+
+	test('unevaluatedProperties', function () {
+		let schema: JsonSchema.JSONSchema = {
+			properties: { a: {} },
+			allOf: [{ properties: { b: {} } }],
+			anyOf: [{ properties: { c: { type: 'number' } }, required: ['c'] }, { properties: { d: {} }, required: ['d'] }],
+			if: { properties: { e: { const: 1 } }, required: ['e'] },
+			then: { properties: { f: {} } },
+			patternProperties: { '^x': {} },
+			unevaluatedProperties: false
+		};
+		assert.strictEqual(toDocument('{ "a": 1, "b": 2, "c": 3, "e": 1, "f": 4, "x1": 5 }').validate(schema).length, 0);
+
+		let semanticErrors = toDocument('{ "c": 3, "d": 1, "g": 1 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => ({ code: e.code, keyword: e.keyword, data: e.data })), [
+			{ code: Parser.ErrorCode.PropertyNotAllowed, keyword: 'unevaluatedProperties', data: { property: 'g' } }
+		]);
+
+		// properties of a failed 'if' or of an anyOf alternative that does not match are not evaluated
+		semanticErrors = toDocument('{ "c": "x", "d": 1, "e": 2, "f": 1 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.data && e.data.property), ['c', 'e', 'f']);
+
+		schema.unevaluatedProperties = { type: 'string' };
+		semanticErrors = toDocument('{ "c": 1, "g": "x", "h": 1 }').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => e.code), [Parser.ErrorCode.TypeMismatch]);
+	});
+
+	test('unevaluatedItems', function () {
+		let schema: JsonSchema.JSONSchema = {
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			prefixItems: [{ type: 'string' }],
+			allOf: [{ prefixItems: [{}, { type: 'number' }] }],
+			contains: { type: 'boolean' },
+			unevaluatedItems: false
+		};
+		assert.strictEqual(toDocument('["a", 1, true]').validate(schema).length, 0);
+		let semanticErrors = toDocument('["a", 1, true, null]').validate(schema);
+		assert.deepEqual(semanticErrors.map(e => ({ code: e.code, keyword: e.keyword })), [
+			{ code: Parser.ErrorCode.UnevaluatedItemNotAllowed, keyword: 'unevaluatedItems' }
+		]);
+
+		// draft-07 does not know 'unevaluatedItems'
+		schema = { $schema: 'http://json-schema.org/draft-07/schema#', items: [{}], unevaluatedItems: false };
+		assert.strictEqual(toDocument('[1, 2]').validate(schema).length, 0);
+	});
+
 });
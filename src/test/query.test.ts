@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-types';
+import { getLanguageService } from '../jsonLanguageService';
+
+suite('JSON Query', () => {
+
+	let content = [
+		'{',
+		'  "services": {',
+		'    "web": { "image": "nginx", "ports": [80, 443] },',
+		'    "db": { "image": "postgres", "ports": [5432] },',
+		'    "a/b": { "~c": true }',
+		'  },',
+		'  "tags": ["x", "y", "z", "w"]',
+		'}'
+	].join('\n');
+	let ls = getLanguageService({});
+	let document = TextDocument.create('test://test.json', 'json', 0, content);
+	let jsonDoc = ls.parseJSONDocument(document);
+
+	function assertPointer(pointer: string, expected: string): void {
+		let node = ls.findNodeAtPointer(jsonDoc, pointer);
+		assert.strictEqual(node ? content.substring(node.start, node.end) : null, expected, pointer);
+	}
+
+	function assertQuery(query: string, expected: string[]): void {
+		let nodes = ls.queryNodes(jsonDoc, query);
+		assert.deepEqual(nodes && nodes.map(node => content.substring(node.start, node.end)), expected, query);
+	}
+
+	test('JSON pointer', function () {
+		assertPointer('', content);
+		assertPointer('/services/web/image', '"nginx"');
+		assertPointer('/services/db/ports/0', '5432');
+		assertPointer('/services/a~1b/~0c', 'true');
+		assertPointer('#/services/a~1b', '{ "~c": true }');
+		assertPointer('#/tags/%31', '"y"');
+		assertPointer('/tags/4', null);
+		assertPointer('/tags/-', null);
+		assertPointer('/tags/01', null);
+		assertPointer('/unknown', null);
+		assertPointer('services', null);
+		assertPointer('#/%E0%A4%A', null);
+	});
+
+	test('JSONPath', function () {
+		assertQuery('$', [content]);
+		assertQuery('$.services[*].image', ['"nginx"', '"postgres"']);
+		assertQuery('$.services.web.ports[1]', ['443']);
+		assertQuery('$[\'services\']["a/b"][\'~c\']', ['true']);
+		assertQuery('$.tags[-1]', ['"w"']);
+		assertQuery('$.tags[0, 2]', ['"x"', '"z"']);
+		assertQuery('$.tags[1:3]', ['"y"', '"z"']);
+		assertQuery('$.tags[::2]', ['"x"', '"z"']);
+		assertQuery('$.tags[::-1]', ['"w"', '"z"', '"y"', '"x"']);
+		assertQuery('$.tags[-2:]', ['"z"', '"w"']);
+		assertQuery('$..ports[0]', ['80', '5432']);
+		assertQuery('$..image', ['"nginx"', '"postgres"']);
+		assertQuery('$.services.*.ports.*', ['80', '443', '5432']);
+		assertQuery('$.tags.image', []);
+		assertQuery('$.tags[7]', []);
+		assertQuery('services', null);
+		assertQuery('$.tags[0', null);
+		assertQuery('$.tags[?(@ == "x")]', null);
+		assertQuery('$.', null);
+	});
+});
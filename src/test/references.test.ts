@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import { TextDocument, TextEdit } from 'vscode-languageserver-types';
+import { getLanguageService } from '../jsonLanguageService';
+import { parseJSONPointer, formatJSONPointer } from '../utils/jsonPointer';
+
+suite('JSON References', () => {
+
+	let uri = 'test://test/schema.json';
+
+	function parse(value: string) {
+		let offset = value.indexOf('|');
+		value = value.substr(0, offset) + value.substr(offset + 1);
+
+		let ls = getLanguageService({});
+		let document = TextDocument.create(uri, 'json', 0, value);
+		let jsonDoc = ls.parseJSONDocument(document);
+		return { ls, document, jsonDoc, position: document.positionAt(offset) };
+	}
+
+	function assertReferences(value: string, expected: string[], includeDeclaration = false) {
+		let { ls, document, jsonDoc, position } = parse(value);
+		let locations = ls.findReferences(document, position, jsonDoc, { includeDeclaration });
+		assert.deepEqual(locations.map(l => l.uri), expected.map(_ => uri));
+		assert.deepEqual(locations.map(l => document.getText(l.range)), expected);
+	}
+
+	function assertRename(value: string, newName: string, expected: string | null) {
+		let { ls, document, jsonDoc, position } = parse(value);
+		let edit = ls.doRename(document, position, newName, jsonDoc);
+		if (expected === null) {
+			assert.equal(edit, null);
+			return;
+		}
+		let edits = edit.changes[uri];
+		let text = document.getText();
+		edits.sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start)).forEach((e: TextEdit) => {
+			text = text.substring(0, document.offsetAt(e.range.start)) + e.newText + text.substring(document.offsetAt(e.range.end));
+		});
+		assert.equal(text, expected);
+	}
+
+	test('JSON pointers', function () {
+		assert.deepEqual(parseJSONPointer(''), []);
+		assert.deepEqual(parseJSONPointer('/'), ['']);
+		assert.deepEqual(parseJSONPointer('/a~1b/c~0d/0'), ['a/b', 'c~d', '0']);
+		assert.deepEqual(parseJSONPointer('/a%20b', true), ['a b']);
+		assert.deepEqual(parseJSONPointer('/a%20b'), ['a%20b']);
+		assert.equal(parseJSONPointer('a'), null);
+
+		assert.equal(formatJSONPointer([]), '');
+		assert.equal(formatJSONPointer(['a/b', 'c~d', 0]), '/a~1b/c~0d/0');
+		assert.equal(formatJSONPointer(['a b', '$x', '%'], true), '/a%20b/$x/%25');
+	});
+
+	test('Find references', function () {
+		let content = '{ "properties": { "a": { "$ref": "#/definitions/foo" }, "b": { "$ref": "#/definitions/foo/items" }, "c": { "$ref": "#/definitions/foobar" } }, "definitions": { "f|oo": { "items": {} }, "foobar": {} } }';
+		assertReferences(content, ['"#/definitions/foo"', '"#/definitions/foo/items"']);
+		assertReferences(content, ['"foo"', '"#/definitions/foo"', '"#/definitions/foo/items"'], true);
+
+		content = '{ "properties": { "a": { "$ref": "#/definitions/fo|o" }, "b": { "$ref": "#/definitions/foo" } }, "definitions": { "foo": {} } }';
+		assertReferences(content, ['"#/definitions/foo"', '"#/definitions/foo"']);
+
+		content = '{ "properties": { "a": { "$ref": "#/$defs/a~1b" }, "b": { "$ref": "#/$defs/a%7E1b" } }, "$defs": { "a/|b": {} } }';
+		assertReferences(content, ['"#/$defs/a~1b"', '"#/$defs/a%7E1b"']);
+	});
+
+	test('No references', function () {
+		assertReferences('{ "properties": { "f|oo": {} }, "definitions": { "foo": {} } }', []);
+		assertReferences('{ "properties": { "definitions": { "f|oo": {} } } }', []);
+		assertReferences('{ "properties": { "a": { "$ref": "other.json#/definitions/fo|o" } }, "definitions": { "foo": {} } }', []);
+		assertReferences('{ "definitions": { "foo": { "type": "str|ing" } } }', []);
+	});
+
+	test('Rename', function () {
+		assertRename(
+			'{ "properties": { "a": { "$ref": "#/definitions/foo" }, "b": { "$ref": "#/definitions/foo/items" } }, "definitions": { "f|oo": { "items": {} } } }',
+			'bar',
+			'{ "properties": { "a": { "$ref": "#/definitions/bar" }, "b": { "$ref": "#/definitions/bar/items" } }, "definitions": { "bar": { "items": {} } } }'
+		);
+		assertRename(
+			'{ "properties": { "a": { "$ref": "#/definitions/f|oo" } }, "definitions": { "foo": {} } }',
+			'a/b c~',
+			'{ "properties": { "a": { "$ref": "#/definitions/a~1b%20c~0" } }, "definitions": { "a/b c~": {} } }'
+		);
+		assertRename(
+			'{ "$defs": { "foo": { "$defs": { "b|ar": {} } } }, "$ref": "#/$defs/foo/$defs/bar" }',
+			'x',
+			'{ "$defs": { "foo": { "$defs": { "x": {} } } }, "$ref": "#/$defs/foo/$defs/x" }'
+		);
+		assertRename('{ "properties": { "f|oo": {} } }', 'bar', null);
+		assertRename('{ "properties": { "a": { "$ref": "#/definitions/foo" } }, "definitions": { "f|oo": {}, "bar": {} } }', 'bar', null);
+		assertRename('{ "definitions": { "f|oo": {} }, "$defs": { "bar": {} } }', 'bar', '{ "definitions": { "bar": {} }, "$defs": { "bar": {} } }');
+	});
+});
@@ -169,6 +169,221 @@ suite('JSON Schema', () => {
 
 	});
 
+	test('Resolving escaped $refs', async function () {
+		let service = new SchemaService.JSONSchemaService(requestServiceMock, workspaceContext);
+		service.setSchemaContributions({
+			schemas: {
+				"https://myschemastore/main": {
+					type: 'object',
+					properties: {
+						p1: {
+							'$ref': '#/definitions/a~1b'
+						},
+						p2: {
+							'$ref': '#/definitions/c~0d%20e'
+						}
+					},
+					definitions: {
+						"a/b": {
+							"type": "string"
+						},
+						"c~d e": {
+							"type": "number"
+						}
+					}
+				}
+			}
+		});
+
+		return service.getResolvedSchema('https://myschemastore/main').then(fs => {
+			assert.deepEqual(fs.errors, []);
+			assert.deepEqual(fs.schema.properties['p1'], { type: 'string' });
+			assert.deepEqual(fs.schema.properties['p2'], { type: 'number' });
+		});
+	});
+
+	test('Resolving $refs in $defs and 2019-09 keywords', async function () {
+		let service = new SchemaService.JSONSchemaService(requestServiceMock, workspaceContext);
+		service.setSchemaContributions({
+			schemas: {
+				"https://myschemastore/main": {
+					$schema: 'https://json-schema.org/draft/2020-12/schema',
+					type: 'object',
+					properties: {
+						p1: { $ref: '#/$defs/a' }
+					},
+					dependentSchemas: {
+						p1: { properties: { p2: { $ref: '#/$defs/b' } } }
+					},
+					prefixItems: [{ $ref: '#/$defs/b' }],
+					unevaluatedProperties: { $ref: '#/$defs/a' },
+					$defs: {
+						a: { type: 'string' },
+						b: { $ref: '#/$defs/c' },
+						c: { type: 'number' }
+					}
+				}
+			}
+		});
+
+		return service.getResolvedSchema('https://myschemastore/main').then(fs => {
+			assert.deepEqual(fs.errors, []);
+			assert.deepEqual(fs.schema.properties['p1'], { type: 'string' });
+			assert.deepEqual((<JsonSchema.JSONSchema>fs.schema.dependentSchemas['p1']).properties['p2'], { type: 'number' });
+			assert.deepEqual(fs.schema.prefixItems[0], { type: 'number' });
+			assert.deepEqual(fs.schema.unevaluatedProperties, { type: 'string' });
+		});
+	});
+
+	test('Resolving $refs with $id and $anchor', async function () {
+		let service = new SchemaService.JSONSchemaService(requestServiceMock);
+		service.setSchemaContributions({
+			schemas: {
+				"https://example.com/schemas/root.json": {
+					$id: 'https://example.com/schemas/root.json',
+					type: 'object',
+					properties: {
+						p1: { $ref: 'item.json' },
+						p2: { $ref: '#foo' },
+						p3: { $ref: 'item.json#bar' },
+						p4: { $ref: 'nested/other.json#/definitions/x' },
+						p5: { $ref: '#legacy' },
+						p6: { $ref: 'item.json#/$defs/count' }
+					},
+					$defs: {
+						item: {
+							$id: 'item.json',
+							type: 'string',
+							$defs: {
+								bar: { $anchor: 'bar', type: 'number' },
+								count: { $ref: '#bar' }
+							}
+						},
+						foo: { $anchor: 'foo', type: 'boolean' },
+						other: {
+							$id: 'nested/other.json',
+							definitions: {
+								x: { $ref: 'sibling.json' }
+							}
+						},
+						sibling: { $id: 'nested/sibling.json', type: 'integer' },
+						legacy: { $id: '#legacy', type: 'null' }
+					}
+				}
+			}
+		});
+
+		return service.getResolvedSchema('https://example.com/schemas/root.json').then(fs => {
+			assert.deepEqual(fs.errors, []);
+			let properties = fs.schema.properties;
+			assert.deepEqual(Object.keys(properties).map(key => (<JsonSchema.JSONSchema>properties[key]).type), ['string', 'boolean', 'number', 'integer', 'null', 'number']);
+		});
+	});
+
+	test('Resolving $refs with draft-04 ids', async function () {
+		let service = new SchemaService.JSONSchemaService(requestServiceMock);
+		service.setSchemaContributions({
+			schemas: {
+				"https://example.com/schemas/root.json": {
+					$schema: 'http://json-schema.org/draft-04/schema#',
+					id: 'https://example.com/schemas/root.json',
+					type: 'object',
+					properties: {
+						p1: { $ref: 'item.json' },
+						p2: { $ref: '#foo' },
+						p3: { $ref: 'item.json#bar' },
+						p4: { $ref: 'nested/other.json#/definitions/x' },
+						p5: { $ref: '#ignored' }
+					},
+					definitions: {
+						item: {
+							id: 'item.json',
+							type: 'string',
+							definitions: {
+								bar: { id: '#bar', type: 'number' }
+							}
+						},
+						foo: { id: '#foo', type: 'boolean' },
+						other: {
+							id: 'nested/other.json',
+							definitions: {
+								x: { $ref: 'sibling.json' }
+							}
+						},
+						sibling: { id: 'nested/sibling.json', type: 'integer' },
+						ignored: { $id: '#ignored', type: 'null' }
+					}
+				}
+			}
+		});
+
+		return service.getResolvedSchema('https://example.com/schemas/root.json').then(fs => {
+			assert.deepEqual(fs.errors, ['$ref \'ignored\' in \'https://example.com/schemas/root.json\' can not be resolved.']);
+			let properties = fs.schema.properties;
+			assert.deepEqual(Object.keys(properties).map(key => (<JsonSchema.JSONSchema>properties[key]).type), ['string', 'boolean', 'number', 'integer', undefined]);
+		});
+	});
+
+	test('Resolving unknown anchors', async function () {
+		let service = new SchemaService.JSONSchemaService(requestServiceMock);
+		service.setSchemaContributions({
+			schemas: {
+				"https://example.com/schemas/root.json": {
+					properties: {
+						p1: { $ref: '#foo' },
+						p2: { $ref: 'item.json#bar' }
+					},
+					$defs: {
+						item: { $id: 'other.json', $anchor: 'bar' }
+					}
+				}
+			}
+		});
+
+		return service.getResolvedSchema('https://example.com/schemas/root.json').then(fs => {
+			assert.deepEqual(fs.errors, [
+				"$ref 'foo' in 'https://example.com/schemas/root.json' can not be resolved.",
+				"Problems loading reference 'https://example.com/schemas/item.json#bar': Unable to load schema from 'https://example.com/schemas/item.json': Resource not found.",
+				"$ref 'bar' in 'https://example.com/schemas/item.json' can not be resolved."
+			]);
+		});
+	});
+
+	test('Resolving $dynamicRef', async function () {
+		let service = new SchemaService.JSONSchemaService(requestServiceMock, workspaceContext);
+		service.setSchemaContributions({
+			schemas: {
+				"https://example.com/tree": {
+					$schema: 'https://json-schema.org/draft/2020-12/schema',
+					$id: 'https://example.com/tree',
+					$dynamicAnchor: 'node',
+					type: 'object',
+					properties: {
+						data: true,
+						children: {
+							type: 'array',
+							items: { $dynamicRef: '#node' }
+						}
+					}
+				},
+				"https://example.com/strict-tree": {
+					$schema: 'https://json-schema.org/draft/2020-12/schema',
+					$id: 'https://example.com/strict-tree',
+					$dynamicAnchor: 'node',
+					$ref: 'tree',
+					unevaluatedProperties: false
+				}
+			}
+		});
+
+		let document = toDocument('{ "children": [ { "daat": 1 } ] }');
+		return service.getResolvedSchema('https://example.com/strict-tree').then(fs => {
+			assert.deepEqual(fs.errors, []);
+			let problems = document.validate(fs.schema);
+			assert.deepEqual(problems.map(p => p.message), ['Property daat is not allowed.']);
+		});
+	});
+
 	test('FileSchema', async function () {
 		let service = new SchemaService.JSONSchemaService(requestServiceMock, workspaceContext);
 
@@ -731,4 +946,23 @@ suite('JSON Schema', () => {
 
 
 	});
-});
\ No newline at end of file
+
+	test('Cancelled schema requests', async function () {
+		let token = { isCancellationRequested: false };
+		let requests: string[] = [];
+		let service = new SchemaService.JSONSchemaService((uri: string) => {
+			requests.push(uri);
+			token.isCancellationRequested = true;
+			return Promise.resolve('{ "type": "object" }');
+		});
+
+		// a cancelled request gets no schema, other requests get the schema
+		service.registerExternalSchema('http://myschemastore/test3', ['*.json']);
+		assert.strictEqual(await service.getSchemaForResource('test.json', null, token), null);
+		let resolvedSchema = await service.getSchemaForResource('test.json', null);
+		assert.deepEqual(resolvedSchema.schema, { type: 'object' });
+
+		// the schema was loaded once, by the cancelled request
+		assert.deepEqual(requests, ['http://myschemastore/test3']);
+	});
+});
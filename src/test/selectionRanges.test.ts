@@ -0,0 +1,98 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-types';
+import { getLanguageService, SelectionRange } from '../jsonLanguageService';
+
+function assertRanges(content: string, expected: (number | string)[][]): void {
+	let message = `${content} gives selection range:\n`;
+
+	let offset = content.indexOf('|');
+	content = content.substr(0, offset) + content.substr(offset + 1);
+
+	let ls = getLanguageService({});
+
+	let document = TextDocument.create('test://foo.json', 'json', 1, content);
+	let jsonDoc = ls.parseJSONDocument(document);
+
+	let actualRanges = ls.getSelectionRanges(document, [document.positionAt(offset)], jsonDoc);
+	assert.equal(actualRanges.length, 1);
+	let offsetPairs: [number, string][] = [];
+	let curr: SelectionRange = actualRanges[0];
+	while (curr) {
+		offsetPairs.push([document.offsetAt(curr.range.start), document.getText(curr.range)]);
+		curr = curr.parent;
+	}
+
+	message += `${JSON.stringify(offsetPairs)}\n but should give:\n${JSON.stringify(expected)}\n`;
+	assert.deepEqual(offsetPairs, expected, message);
+}
+
+suite('JSON SelectionRange', () => {
+	test('Strings', () => {
+		assertRanges('"ab|cd"', [
+			[1, 'abcd'],
+			[0, '"abcd"']
+		]);
+		assertRanges('"|abcd"', [
+			[1, 'abcd'],
+			[0, '"abcd"']
+		]);
+		assertRanges('"abcd|"', [
+			[1, 'abcd'],
+			[0, '"abcd"']
+		]);
+		assertRanges('|""', [
+			[0, '""']
+		]);
+	});
+
+	test('Literals', () => {
+		assertRanges('[ 1|2 ]', [
+			[2, '12'],
+			[1, ' 12 '],
+			[0, '[ 12 ]']
+		]);
+		assertRanges('[ true|, null ]', [
+			[2, 'true'],
+			[1, ' true, null '],
+			[0, '[ true, null ]']
+		]);
+	});
+
+	test('Properties', () => {
+		assertRanges('{ "f|oo": "bar" }', [
+			[3, 'foo'],
+			[2, '"foo"'],
+			[2, '"foo": "bar"'],
+			[1, ' "foo": "bar" '],
+			[0, '{ "foo": "bar" }']
+		]);
+		assertRanges('{ "foo": "b|ar" }', [
+			[10, 'bar'],
+			[9, '"bar"'],
+			[2, '"foo": "bar"'],
+			[1, ' "foo": "bar" '],
+			[0, '{ "foo": "bar" }']
+		]);
+		assertRanges('{ "foo": { "bar": [|] } }', [
+			[18, '[]'],
+			[11, '"bar": []'],
+			[10, ' "bar": [] '],
+			[9, '{ "bar": [] }'],
+			[2, '"foo": { "bar": [] }'],
+			[1, ' "foo": { "bar": [] } '],
+			[0, '{ "foo": { "bar": [] } }']
+		]);
+	});
+
+	test('Outside of a value', () => {
+		assertRanges('|', [
+			[0, '']
+		]);
+	});
+});
@@ -0,0 +1,84 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import * as JsonSchema from '../jsonSchema';
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { getLanguageService, Thenable } from '../jsonLanguageService';
+
+suite('JSON Semantic Tokens', () => {
+
+	let schemaRequestService = function (uri: string): Promise<string> {
+		return Promise.reject<string>('Resource not found');
+	};
+
+	function assertTokens(value: string, schema: JsonSchema.JSONSchema, expected: string[], range?: Range): Thenable<void> {
+		let ls = getLanguageService({ schemaRequestService });
+		if (schema) {
+			ls.configure({ schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		}
+		let document = TextDocument.create('test://test.json', 'json', 0, value);
+		let jsonDoc = ls.parseJSONDocument(document);
+		let legend = ls.getSemanticTokensLegend();
+		return ls.getSemanticTokens(document, jsonDoc, range).then(tokens => {
+			let actual: string[] = [];
+			let line = 0, character = 0;
+			for (let i = 0; i < tokens.data.length; i += 5) {
+				let [deltaLine, deltaCharacter, length, type, modifiers] = tokens.data.slice(i, i + 5);
+				character = deltaLine === 0 ? character + deltaCharacter : deltaCharacter;
+				line += deltaLine;
+				let start = document.offsetAt({ line, character });
+				let modifierNames = legend.tokenModifiers.filter((m, index) => modifiers & (1 << index));
+				actual.push([value.substr(start, length), legend.tokenTypes[type]].concat(modifierNames).join(' '));
+			}
+			assert.deepEqual(actual, expected);
+		});
+	}
+
+	test('Syntax', async function () {
+		await assertTokens('{ "a": "x", "b": [1, true, null],\n "$ref": "#/c", "$schema": "s" }', null, [
+			'"a" property', '"x" string', '"b" property', '1 number', 'true boolean', 'null null',
+			'"$ref" keyword', '"#/c" string', '"$schema" keyword', '"s" string'
+		]);
+		await assertTokens('// c\n[ /* d\n\te */ 1 ]', null, [
+			'// c comment', '/* d comment', '\te */ comment', '1 number'
+		]);
+		await assertTokens('', null, []);
+	});
+
+	test('Range', async function () {
+		await assertTokens('{ "a": 1,\n "b": { "c": 2 },\n "d": 3 }', null, [
+			'"b" property', '"c" property', '2 number'
+		], Range.create(1, 0, 1, 20));
+	});
+
+	test('Schema modifiers', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				old: { type: 'number', deprecationMessage: 'Use name.' },
+				nested: {
+					type: 'object',
+					properties: { x: {} },
+					additionalProperties: false
+				}
+			},
+			patternProperties: {
+				'^x-': {}
+			},
+			allOf: [{ properties: { extra: {} } }]
+		};
+		await assertTokens('{ "name": "n", "old": 1, "x-a": 2, "extra": 3, "other": 4, "nested": { "x": 5, "y": 6 } }', schema, [
+			'"name" property declaration', '"n" string',
+			'"old" property deprecated declaration', '1 number',
+			'"x-a" property declaration', '2 number',
+			'"extra" property declaration', '3 number',
+			'"other" property additional', '4 number',
+			'"nested" property declaration', '"x" property declaration', '5 number', '"y" property additional', '6 number'
+		]);
+	});
+});
@@ -0,0 +1,307 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import * as JsonSchema from '../jsonSchema';
+import { TextDocument, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { getLanguageService, ErrorCode, DiagnosticData, DiagnosticRelatedInformation, KeywordValidator, AlternativeExplanation } from '../jsonLanguageService';
+
+suite('JSON Validation', () => {
+
+	let schemaRequestService = function (uri: string): Promise<string> {
+		return Promise.reject<string>('Resource not found');
+	};
+
+	test('Diagnostic codes and data', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			required: ['name'],
+			properties: {
+				count: { $ref: '#/definitions/count' },
+				tags: { type: 'array', items: { type: 'string', maxLength: 3 } }
+			},
+			definitions: {
+				count: { type: 'integer', maximum: 10 }
+			}
+		};
+		let ls = getLanguageService({ schemaRequestService });
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "count": 12, "tags": ["abcd"], /* c */ }');
+		let jsonDoc = ls.parseJSONDocument(document);
+		let diagnostics = await ls.doValidation(document, jsonDoc);
+		let actual = diagnostics.map(d => ({ code: d.code, data: (<{ data?: DiagnosticData }>d).data }));
+		assert.deepEqual(actual, [
+			{ code: ErrorCode.MissingRequiredProperty, data: { property: 'name', keyword: 'required', schemaPointer: '/required' } },
+			{ code: ErrorCode.AboveMaximum, data: { keyword: 'maximum', schemaPointer: '/properties/count/maximum' } },
+			{ code: ErrorCode.StringTooLong, data: { keyword: 'maxLength', schemaPointer: '/properties/tags/items/maxLength' } },
+			{ code: ErrorCode.TrailingComma, data: undefined },
+			{ code: ErrorCode.CommentNotPermitted, data: undefined }
+		]);
+	});
+
+	test('Related information for schema keywords', async function () {
+		let schemas: { [uri: string]: string } = {
+			'http://myschemastore/main.json': '{\n  "properties": {\n    "name": { "$ref": "#/definitions/name" },\n    "id": { "$ref": "defs.json#/definitions/id" },\n    "count": { "maximum": 10 }\n  },\n  "definitions": {\n    "name": { "type": "string", "maxLength": 3 }\n  }\n}',
+			'http://myschemastore/defs.json': '{ "definitions": { "id": { "type": "string", "pattern": "^[a-z]+$" } } }'
+		};
+		let ls = getLanguageService({
+			schemaRequestService: uri => schemas[uri] ? Promise.resolve(schemas[uri]) : Promise.reject<string>('Resource not found')
+		});
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/main.json' }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "name": "abcd", "id": "A1", "count": 12, "other": 1, }');
+		let jsonDoc = ls.parseJSONDocument(document);
+		let diagnostics = await ls.doValidation(document, jsonDoc);
+		let actual = diagnostics.map(d => {
+			let relatedInformation = (<{ relatedInformation?: DiagnosticRelatedInformation[] }>d).relatedInformation;
+			return relatedInformation && relatedInformation.map(info => {
+				let schemaDocument = TextDocument.create(info.location.uri, 'json', 0, schemas[info.location.uri]);
+				return { uri: info.location.uri, text: schemaDocument.getText(info.location.range), message: info.message };
+			});
+		});
+		assert.deepEqual(actual, [
+			[{ uri: 'http://myschemastore/main.json', text: '"maxLength": 3', message: 'Violated schema keyword "maxLength"' }],
+			[{ uri: 'http://myschemastore/defs.json', text: '"pattern": "^[a-z]+$"', message: 'Violated schema keyword "pattern"' }],
+			[{ uri: 'http://myschemastore/main.json', text: '"maximum": 10', message: 'Violated schema keyword "maximum"' }],
+			undefined
+		]);
+
+		// schemas that are not loaded from a document have no location
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/inline', schema: { properties: { count: { maximum: 10 } } } }] });
+		diagnostics = await ls.doValidation(document, jsonDoc);
+		assert.deepEqual(diagnostics.map(d => (<{ relatedInformation?: DiagnosticRelatedInformation[] }>d).relatedInformation), [undefined, undefined]);
+	});
+
+	test('Explain alternatives', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				pet: {
+					oneOf: [
+						{ title: 'Cat', type: 'object', required: ['meow'] },
+						{ title: 'Dog', type: 'object', required: ['bark'] },
+						{ type: 'string' }
+					]
+				},
+				size: {
+					anyOf: [{ type: 'number', minimum: 1 }, { enum: ['small', 'large'] }]
+				}
+			}
+		};
+		let ls = getLanguageService({ schemaRequestService });
+		let validate = async (text: string) => {
+			let document = TextDocument.create('test://test.json', 'json', 0, text);
+			let diagnostics = await ls.doValidation(document, ls.parseJSONDocument(document));
+			return diagnostics.map(d => ({ code: d.code, message: d.message }));
+		};
+
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		assert.deepEqual(await validate('{ "pet": { "meow": 1, "bark": 1 } }'), [
+			{ code: ErrorCode.OneOfMultipleMatches, message: 'Matches multiple schemas when only one must validate.' }
+		]);
+
+		ls.configure({ validate: true, explainAlternatives: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		assert.deepEqual(await validate('{ "pet": { "meow": 1, "bark": 1 } }'), [
+			{ code: ErrorCode.OneOfMultipleMatches, message: 'Matches multiple schemas when only one must validate: "Cat", "Dog".' }
+		]);
+		assert.deepEqual(await validate('{ "pet": {}, "size": 0 }'), [
+			{ code: ErrorCode.MissingRequiredProperty, message: 'Missing property "meow".' },
+			{ code: ErrorCode.NoAlternativeMatches, message: 'Value does not match any of the alternatives:\n"Cat": Missing property "meow".\n"Dog": Missing property "bark".\nalternative 3: Incorrect type. Expected "string".' },
+			{ code: ErrorCode.BelowMinimum, message: 'Value is below the minimum of 1.' },
+			{ code: ErrorCode.NoAlternativeMatches, message: 'Value does not match any of the alternatives:\nalternative 1: Value is below the minimum of 1.\nalternative 2: Value is not accepted. Valid values: "small", "large".' }
+		]);
+
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "pet": 1 }');
+		let diagnostics = await ls.doValidation(document, ls.parseJSONDocument(document));
+		let alternatives: AlternativeExplanation[] = (<{ data?: DiagnosticData }>diagnostics[1]).data.alternatives;
+		assert.deepEqual(alternatives.map(a => ({ index: a.index, title: a.title, matches: a.matches, codes: a.problems.map(p => p.code) })), [
+			{ index: 0, title: 'Cat', matches: false, codes: [ErrorCode.TypeMismatch] },
+			{ index: 1, title: 'Dog', matches: false, codes: [ErrorCode.TypeMismatch] },
+			{ index: 2, title: undefined, matches: false, codes: [ErrorCode.TypeMismatch] }
+		]);
+	});
+
+	test('Cancellation', async function () {
+		let token = { isCancellationRequested: false };
+		let ls = getLanguageService({
+			schemaRequestService,
+			keywordValidators: {
+				// cancels the validation when the walk reaches the value of 'b'
+				cancel: () => token.isCancellationRequested = true
+			}
+		});
+		let schema: JsonSchema.JSONSchema = { type: 'object', properties: { a: { type: 'string' }, b: <JsonSchema.JSONSchema>{ cancel: true } } };
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "a": 1, "b": 2, "c": 3, }');
+		let jsonDoc = ls.parseJSONDocument(document);
+
+		assert.deepEqual(await ls.doValidation(document, jsonDoc, void 0, token), []);
+		assert.deepEqual(await ls.doValidation(document, jsonDoc, void 0, token), []);
+		assert.strictEqual(await ls.doComplete(document, document.positionAt(1), jsonDoc, token), null);
+		assert.strictEqual(await ls.doHover(document, document.positionAt(3), jsonDoc, token), null);
+		assert.deepEqual(await ls.findDocumentColors(document, jsonDoc, token), []);
+
+		token.isCancellationRequested = false;
+		assert.deepEqual((await ls.doValidation(document, jsonDoc)).map(d => d.code), [ErrorCode.TypeMismatch, ErrorCode.TrailingComma]);
+	});
+
+	test('Severity overrides', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				name: { type: 'string', maxLength: 2 },
+				old: { deprecationMessage: 'Do not use' }
+			},
+			additionalProperties: false
+		};
+		let ls = getLanguageService({ schemaRequestService });
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "name": "x", "old": 1, "extra": 2, "name": "abc" }');
+		let jsonDoc = ls.parseJSONDocument(document);
+
+		let diagnostics = await ls.doValidation(document, jsonDoc, {
+			severities: { duplicateKey: 'error', deprecated: 'ignore', additionalProperties: 'error' }
+		});
+		assert.deepEqual(diagnostics.map(d => ({ code: d.code, severity: d.severity })), [
+			{ code: ErrorCode.StringTooLong, severity: DiagnosticSeverity.Warning },
+			{ code: ErrorCode.PropertyNotAllowed, severity: DiagnosticSeverity.Error },
+			{ code: ErrorCode.DuplicateKey, severity: DiagnosticSeverity.Error },
+			{ code: ErrorCode.DuplicateKey, severity: DiagnosticSeverity.Error }
+		]);
+
+		// problem codes take precedence over keywords
+		diagnostics = await ls.doValidation(document, jsonDoc, {
+			severities: { maxLength: 'ignore', propertyNotAllowed: 'ignore', additionalProperties: 'error', duplicateKey: 'ignore', deprecationMessage: 'error' }
+		});
+		assert.deepEqual(diagnostics.map(d => ({ code: d.code, severity: d.severity })), [
+			{ code: ErrorCode.Deprecated, severity: DiagnosticSeverity.Error }
+		]);
+	});
+
+	test('Format as annotation', async function () {
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				created: { type: 'string', format: 'date-time' },
+				host: { type: 'string', format: 'ipv4', maxLength: 7 }
+			}
+		};
+		let ls = getLanguageService({ schemaRequestService });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "created": "yesterday", "host": "10.0.0.256" }');
+		let jsonDoc = ls.parseJSONDocument(document);
+
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let diagnostics = await ls.doValidation(document, jsonDoc);
+		assert.deepEqual(diagnostics.map(d => d.code), [ErrorCode.FormatMismatch, ErrorCode.StringTooLong, ErrorCode.FormatMismatch]);
+
+		ls.configure({ validate: true, formatAssertion: false, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		diagnostics = await ls.doValidation(document, jsonDoc);
+		assert.deepEqual(diagnostics.map(d => d.code), [ErrorCode.StringTooLong]);
+	});
+
+	test('Custom format and keyword validators', async function () {
+		let uniqueBy: KeywordValidator = (node, property, problems) => {
+			let seen: { [value: string]: boolean } = {};
+			node.children.forEach(item => {
+				let value = item.getValue();
+				let key = value && JSON.stringify(value[property]);
+				if (seen[key]) {
+					problems.add(`Duplicate ${property} ${key}.`, item);
+				}
+				seen[key] = true;
+			});
+		};
+		let ls = getLanguageService({
+			schemaRequestService,
+			formatValidators: {
+				'semver': value => /^\d+\.\d+\.\d+$/.test(value) ? undefined : 'String is not a semantic version.',
+				'date': value => value === 'today' ? undefined : 'Only today.'
+			},
+			keywordValidators: { 'x-unique-by': uniqueBy }
+		});
+		let schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				version: { type: 'string', format: 'semver' },
+				released: { type: 'string', format: 'date' },
+				items: { type: 'array', 'x-unique-by': 'id' } as JsonSchema.JSONSchema
+			}
+		};
+		ls.configure({ validate: true, schemas: [{ fileMatch: ['*.json'], uri: 'http://myschemastore/test1', schema }] });
+		let document = TextDocument.create('test://test.json', 'json', 0, '{ "version": "1.0", "released": "2018-11-13", "items": [{ "id": 1 }, { "id": 2 }, { "id": 1 }] }');
+		let jsonDoc = ls.parseJSONDocument(document);
+
+		let diagnostics = await ls.doValidation(document, jsonDoc);
+		let actual = diagnostics.map(d => ({ message: d.message, code: d.code, text: document.getText(d.range), data: (<{ data?: DiagnosticData }>d).data }));
+		assert.deepEqual(actual, [
+			{ message: 'String is not a semantic version.', code: ErrorCode.FormatMismatch, text: '"1.0"', data: { format: 'semver', keyword: 'format', schemaPointer: '/properties/version/format' } },
+			{ message: 'Only today.', code: ErrorCode.FormatMismatch, text: '"2018-11-13"', data: { format: 'date', keyword: 'format', schemaPointer: '/properties/released/format' } },
+			{ message: 'Duplicate id 1.', code: ErrorCode.CustomKeywordMismatch, text: '{ "id": 1 }', data: { keyword: 'x-unique-by', schemaPointer: '/properties/items/x-unique-by' } }
+		]);
+
+		diagnostics = await ls.doValidation(document, jsonDoc, { severities: { 'x-unique-by': 'error' } });
+		assert.deepEqual(diagnostics.map(d => d.severity), [DiagnosticSeverity.Warning, DiagnosticSeverity.Warning, DiagnosticSeverity.Error]);
+	});
+
+	test('Schema document checks', async function () {
+		let ls = getLanguageService({ schemaRequestService });
+		ls.configure({ validate: true });
+		async function assertProblems(value: string, expected: { code: ErrorCode, text: string }[]) {
+			let document = TextDocument.create('test://test.schema.json', 'json', 0, value);
+			let diagnostics = await ls.doValidation(document, ls.parseJSONDocument(document));
+			let actual = diagnostics.filter(d => d.code !== ErrorCode.SchemaResolveError).map(d => ({ code: d.code, text: document.getText(d.range) }));
+			assert.deepEqual(actual, expected, value);
+		}
+
+		await assertProblems(JSON.stringify({
+			$schema: 'http://json-schema.org/draft-07/schema#',
+			type: 'object',
+			properties: {
+				a: { $ref: '#/definitions/a' },
+				b: { $ref: '#/definitions/missing' },
+				c: { $ref: '#named' },
+				d: { type: 'string', pattern: '(' },
+				e: { type: 'number', minimum: 10, maximum: 1 },
+				f: { type: 'string', maxLength: 1, minLength: 2 }
+			},
+			patternProperties: { '[a-': {} },
+			required: ['a', 'g'],
+			definitions: {
+				a: { type: 'string', $comment: 'ok', if: {}, then: {} },
+				unused: { type: 'string' },
+				named: { $id: '#named' }
+			},
+			exclusiveMax: 1,
+			'x-vendor': true
+		}), [
+			{ code: ErrorCode.InvalidRegularExpression, text: '"("' },
+			{ code: ErrorCode.MinimumGreaterThanMaximum, text: '10' },
+			{ code: ErrorCode.MinimumGreaterThanMaximum, text: '2' },
+			{ code: ErrorCode.InvalidRegularExpression, text: '"[a-"' },
+			{ code: ErrorCode.UnknownKeyword, text: '"exclusiveMax"' },
+			{ code: ErrorCode.RequiredPropertyNotDefined, text: '"g"' },
+			{ code: ErrorCode.UnresolvedReference, text: '"#/definitions/missing"' },
+			{ code: ErrorCode.UnusedDefinition, text: '"unused"' }
+		]);
+
+		// keywords follow the declared draft
+		await assertProblems('{ "$schema": "http://json-schema.org/draft-04/schema#", "const": 1, "if": {} }', [
+			{ code: ErrorCode.UnknownKeyword, text: '"const"' },
+			{ code: ErrorCode.UnknownKeyword, text: '"if"' }
+		]);
+		await assertProblems('{ "$schema": "https://json-schema.org/draft/2020-12/schema", "$defs": { "a": {} }, "prefixItems": [{ "$ref": "#/$defs/a" }], "$recursiveRef": "#" }', [
+			{ code: ErrorCode.UnknownKeyword, text: '"$recursiveRef"' }
+		]);
+
+		// definitions of a schema that only has definitions are not reported as unused
+		await assertProblems('{ "$schema": "http://json-schema.org/draft-07/schema#", "definitions": { "a": {} } }', []);
+
+		// local references in embedded resources are relative to the resource
+		await assertProblems('{ "$schema": "http://json-schema.org/draft-07/schema#", "items": { "$id": "http://other/item.json", "$ref": "#/definitions/b" } }', []);
+
+		// documents that are not schemas are not checked
+		await assertProblems('{ "required": ["a"], "properties": {}, "minimum": 2, "maximum": 1 }', []);
+	});
+});
@@ -0,0 +1,37 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+/**
+ * Splits a JSON pointer (RFC 6901) into its unescaped segments. Returns null if the string is not a valid pointer.
+ * Pointers taken from a URI fragment (`isFragment`) are percent-decoded first.
+ */
+export function parseJSONPointer(pointer: string, isFragment = false): string[] {
+	if (isFragment) {
+		try {
+			pointer = decodeURIComponent(pointer);
+		} catch (e) {
+			return null;
+		}
+	}
+	if (!pointer) {
+		return [];
+	}
+	if (pointer[0] !== '/') {
+		return null;
+	}
+	return pointer.substr(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Builds a JSON pointer (RFC 6901) from the given segments. Pointers for a URI fragment (`isFragment`) are percent-encoded
+ * where the characters are not allowed in a fragment.
+ */
+export function formatJSONPointer(segments: (string | number)[], isFragment = false): string {
+	return segments.map(segment => {
+		let escaped = String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+		return '/' + (isFragment ? escaped.replace(/[\uD800-\uDBFF][\uDC00-\uDFFF]|[^A-Za-z0-9\-._~!$&'()*+,;=:@?]/g, encodeURIComponent) : escaped);
+	}).join('');
+}
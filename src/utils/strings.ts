@@ -47,3 +47,22 @@ export function repeat(value: string, count: number) {
 	}
 	return s;
 }
+
+/**
+ * Computes the Levenshtein distance between two strings.
+ */
+export function getEditDistance(first: string, second: string): number {
+	let previous: number[] = [];
+	for (let j = 0; j <= second.length; j++) {
+		previous[j] = j;
+	}
+	for (let i = 1; i <= first.length; i++) {
+		let current = [i];
+		for (let j = 1; j <= second.length; j++) {
+			let cost = first.charCodeAt(i - 1) === second.charCodeAt(j - 1) ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+		}
+		previous = current;
+	}
+	return previous[second.length];
+}